@@ -0,0 +1,301 @@
+/**
+ * Public API surface of TypeScript packages
+ *
+ * Checks both sides out on disk, emits declarations (`.d.ts`) for each
+ * package entry point with the package's own tsconfig.json, and lists what
+ * each entry point exports: every exported name with the declaration text it
+ * reaches, following re-exports and `export *` through the emitted files.
+ * Declarations carry signatures, generic constraints and inferred types but
+ * no bodies, so internal changes never show up here.
+ *
+ * Declarations are compared token by token, so formatting and doc comments
+ * are ignored. Types an export merely references are compared through their
+ * own export, when they have one.
+ */
+
+import { existsSync } from "node:fs";
+import { symlink } from "node:fs/promises";
+import { dirname, join, relative } from "node:path";
+import ts from "typescript";
+import { checkoutTree, getRepositoryRoot, openTreeSnapshot, type RefRange, type TreeCheckout, type TreeSnapshot } from "./git";
+import { normalizeTSNode } from "./typescript-tokens";
+import { packageDirectories, packageEntryPoints, TS_EXTENSIONS } from "./typescript-packages";
+
+export interface ApiExport {
+  name: string;
+  /** Normalized declaration text from the emitted `.d.ts` */
+  signature: string;
+}
+
+export interface ApiSignatureChange {
+  name: string;
+  old: string;
+  new: string;
+}
+
+export interface ApiSurfaceDiff {
+  /** Source file of the entry point, relative to the repository root */
+  entryPoint: string;
+  added: ApiExport[];
+  removed: ApiExport[];
+  changed: ApiSignatureChange[];
+}
+
+/** Exported name → signature */
+type ApiSurface = Map<string, string>;
+
+interface DeclarationEmit {
+  /** Emitted declarations by the source file they were emitted from */
+  files: Map<string, ts.SourceFile>;
+  /** Source file a module specifier resolves to, or undefined outside the program */
+  resolve(specifier: string, fromSource: string): string | undefined;
+}
+
+export function hasApiDifferences(diff: ApiSurfaceDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+/** package.json targets, falling back to `index.ts` and `src/index.ts` of the package */
+function entryPointsOf(tree: TreeSnapshot, directory: string): string[] {
+  const declared = packageEntryPoints(tree, directory);
+  if (declared.length > 0) return declared;
+  const prefix = directory ? `${directory}/` : "";
+  const fallback = ["index", "src/index"]
+    .flatMap(stem => TS_EXTENSIONS.map(ext => `${prefix}${stem}${ext}`))
+    .find(path => tree.files.has(path));
+  return fallback ? [fallback] : [];
+}
+
+/** tsconfig.json closest to the entry point, if it lies inside the checkout */
+function configFileFor(root: string, entryPoint: string): string | undefined {
+  const configPath = ts.findConfigFile(join(root, dirname(entryPoint)), ts.sys.fileExists);
+  return configPath && !relative(root, configPath).startsWith("..") ? configPath : undefined;
+}
+
+function compilerOptionsFor(configPath: string | undefined): ts.CompilerOptions {
+  let options: ts.CompilerOptions = {};
+  if (configPath) {
+    const config = ts.readConfigFile(configPath, ts.sys.readFile).config ?? {};
+    options = ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath)).options;
+  }
+  return {
+    ...options,
+    noEmit: false,
+    noEmitOnError: false,
+    declaration: true,
+    emitDeclarationOnly: true,
+    declarationMap: false,
+    sourceMap: false,
+    composite: false,
+    incremental: false,
+    skipLibCheck: true,
+  };
+}
+
+function emitDeclarations(root: string, entryPoints: string[]): DeclarationEmit {
+  const files = new Map<string, ts.SourceFile>();
+  const resolvers: Array<(specifier: string, fromSource: string) => string | undefined> = [];
+
+  // Packages of a monorepo can have their own tsconfig.json; build one program per configuration
+  const byConfig = new Map<string | undefined, string[]>();
+  for (const entryPoint of entryPoints) {
+    const configPath = configFileFor(root, entryPoint);
+    byConfig.set(configPath, [...(byConfig.get(configPath) ?? []), entryPoint]);
+  }
+
+  for (const [configPath, group] of byConfig) {
+    const options = compilerOptionsFor(configPath);
+    const host = ts.createCompilerHost(options);
+    const program = ts.createProgram(group.map(path => join(root, path)), options, host);
+    program.emit(undefined, (fileName, text, _bom, _onError, sourceFiles) => {
+      const source = sourceFiles?.[0];
+      if (!fileName.endsWith(".d.ts") || !source) return;
+      files.set(relative(root, source.fileName), ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true));
+    }, undefined, true);
+    resolvers.push((specifier, fromSource) => {
+      const resolved = ts.resolveModuleName(specifier, join(root, fromSource), options, host).resolvedModule;
+      if (!resolved || resolved.isExternalLibraryImport) return undefined;
+      return relative(root, resolved.resolvedFileName);
+    });
+  }
+
+  const resolve = (specifier: string, fromSource: string) => {
+    for (const resolver of resolvers) {
+      const resolved = resolver(specifier, fromSource);
+      if (resolved && files.has(resolved)) return resolved;
+    }
+    return undefined;
+  };
+  return { files, resolve };
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+}
+
+/** Declaration text without the `export`/`default`/`declare` keywords, which depend on how it is exported */
+function declarationText(node: ts.Node, sourceFile: ts.SourceFile): string {
+  return normalizeTSNode(node, sourceFile).replace(/^((export|default|declare) )+/, "");
+}
+
+function declaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap(d => (ts.isIdentifier(d.name) ? [d.name.text] : []));
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement) ||
+      ts.isModuleDeclaration(statement)) &&
+    statement.name &&
+    ts.isIdentifier(statement.name)
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+function surfaceOf(emit: DeclarationEmit, path: string, surfaces: Map<string, ApiSurface>): ApiSurface {
+  const known = surfaces.get(path);
+  if (known) return known;
+  const surface: ApiSurface = new Map();
+  // Registered before walking, so import cycles see a partial surface instead of recursing forever
+  surfaces.set(path, surface);
+  const sourceFile = emit.files.get(path);
+  if (!sourceFile) return surface;
+
+  const declarations = new Map<string, string[]>();
+  const imports = new Map<string, { specifier: string; name: string }>();
+  for (const statement of sourceFile.statements) {
+    for (const name of declaredNames(statement)) {
+      declarations.set(name, [...(declarations.get(name) ?? []), declarationText(statement, sourceFile)]);
+    }
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (clause?.name) imports.set(clause.name.text, { specifier, name: "default" });
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          imports.set(element.name.text, { specifier, name: (element.propertyName ?? element.name).text });
+        }
+      } else if (bindings) {
+        imports.set(bindings.name.text, { specifier, name: "*" });
+      }
+    }
+  }
+
+  const fromModule = (specifier: string, name: string): string => {
+    const target = emit.resolve(specifier, path);
+    if (!target) return `import("${specifier}").${name}`;
+    const targetSurface = surfaceOf(emit, target, surfaces);
+    if (name === "*") return [...targetSurface].map(([n, s]) => `${n}: ${s}`).sort().join("; ");
+    return targetSurface.get(name) ?? `import("${specifier}").${name}`;
+  };
+  const local = (name: string): string => {
+    const declared = declarations.get(name);
+    if (declared) return declared.join("; ");
+    const imported = imports.get(name);
+    return imported ? fromModule(imported.specifier, imported.name) : name;
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      const names = declaredNames(statement);
+      if (isDefault) surface.set("default", names.length > 0 ? local(names[0]) : declarationText(statement, sourceFile));
+      else names.forEach(name => surface.set(name, local(name)));
+    } else if (ts.isExportAssignment(statement)) {
+      const value = ts.isIdentifier(statement.expression)
+        ? local(statement.expression.text)
+        : normalizeTSNode(statement.expression, sourceFile);
+      surface.set(statement.isExportEquals ? "export=" : "default", value);
+    } else if (ts.isExportDeclaration(statement)) {
+      const specifier =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+      const clause = statement.exportClause;
+      if (!clause && specifier) {
+        const target = emit.resolve(specifier, path);
+        if (!target) {
+          surface.set(`* from "${specifier}"`, `import("${specifier}")`);
+          continue;
+        }
+        for (const [name, signature] of surfaceOf(emit, target, surfaces)) {
+          if (name !== "default" && !surface.has(name)) surface.set(name, signature);
+        }
+      } else if (clause && ts.isNamespaceExport(clause)) {
+        surface.set(clause.name.text, specifier ? fromModule(specifier, "*") : clause.name.text);
+      } else if (clause) {
+        for (const element of clause.elements) {
+          const name = (element.propertyName ?? element.name).text;
+          surface.set(element.name.text, specifier ? fromModule(specifier, name) : local(name));
+        }
+      }
+    }
+  }
+  return surface;
+}
+
+function diffSurfaces(entryPoint: string, oldSurface: ApiSurface, newSurface: ApiSurface): ApiSurfaceDiff {
+  const diff: ApiSurfaceDiff = { entryPoint, added: [], removed: [], changed: [] };
+  for (const [name, signature] of oldSurface) {
+    const current = newSurface.get(name);
+    if (current === undefined) diff.removed.push({ name, signature });
+    else if (current !== signature) diff.changed.push({ name, old: signature, new: current });
+  }
+  for (const [name, signature] of newSurface) {
+    if (!oldSurface.has(name)) diff.added.push({ name, signature });
+  }
+  return diff;
+}
+
+/** Temporary checkouts have no node_modules; link the repository's so dependency types resolve */
+async function linkDependencies(checkout: TreeCheckout, repositoryRoot: string, directories: string[]): Promise<void> {
+  if (checkout.root === repositoryRoot) return;
+  for (const directory of new Set(["", ...directories])) {
+    const installed = join(repositoryRoot, directory, "node_modules");
+    const link = join(checkout.root, directory, "node_modules");
+    if (existsSync(installed) && existsSync(dirname(link)) && !existsSync(link)) await symlink(installed, link, "dir");
+  }
+}
+
+async function surfacesOf(
+  range: RefRange,
+  side: "old" | "new",
+  entryPoints: string[],
+  directories: string[]
+): Promise<Map<string, ApiSurface>> {
+  const checkout = await checkoutTree(range, side);
+  try {
+    // Directories are compared in place, without a repository to link dependencies from
+    if (range.mode !== "directories") await linkDependencies(checkout, await getRepositoryRoot(), directories);
+    const emit = emitDeclarations(checkout.root, entryPoints);
+    const surfaces = new Map<string, ApiSurface>();
+    const result = new Map<string, ApiSurface>();
+    for (const entryPoint of entryPoints) {
+      if (emit.files.has(entryPoint)) result.set(entryPoint, surfaceOf(emit, entryPoint, surfaces));
+    }
+    return result;
+  } finally {
+    await checkout.remove();
+  }
+}
+
+/** Surface differences of every entry point of the packages containing the changed files */
+export async function compareApiSurface(range: RefRange, changedFiles: string[]): Promise<ApiSurfaceDiff[]> {
+  const oldTree = await openTreeSnapshot(range, "old");
+  const newTree = await openTreeSnapshot(range, "new");
+  const directories = [...new Set([...packageDirectories(oldTree, changedFiles), ...packageDirectories(newTree, changedFiles)])];
+  const oldEntryPoints = directories.flatMap(directory => entryPointsOf(oldTree, directory));
+  const newEntryPoints = directories.flatMap(directory => entryPointsOf(newTree, directory));
+
+  const oldSurfaces = await surfacesOf(range, "old", oldEntryPoints, directories);
+  const newSurfaces = await surfacesOf(range, "new", newEntryPoints, directories);
+
+  const entryPoints = [...new Set([...oldEntryPoints, ...newEntryPoints])].sort();
+  return entryPoints.map(entryPoint =>
+    diffSurfaces(entryPoint, oldSurfaces.get(entryPoint) ?? new Map(), newSurfaces.get(entryPoint) ?? new Map())
+  );
+}
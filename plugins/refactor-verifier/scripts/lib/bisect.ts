@@ -0,0 +1,133 @@
+/**
+ * Commit-by-commit attribution (`--bisect`)
+ *
+ * The changed files are re-extracted at every commit of `base..head` and
+ * compared twice: against the previous commit, to show what each commit did
+ * on its own, and against the base, to find the first commit at which each
+ * modified or removed definition's hash diverged from the base.
+ */
+
+import type { ComparisonItem, ComparisonResult } from "./comparison";
+import type { CommitInfo } from "./git";
+
+export type BisectLanguage = "python" | "typescript";
+
+/** Differences a commit introduced relative to its parent */
+export interface CommitCounts {
+  removed: number;
+  added: number;
+  modified: number;
+  moved: number;
+  renamed: number;
+}
+
+export interface BisectCommit extends CommitInfo {
+  /** Per language; null when no changed file of that language was compared */
+  python: CommitCounts | null;
+  typescript: CommitCounts | null;
+}
+
+export interface Attribution {
+  language: BisectLanguage;
+  key: string;
+  name: string;
+  kind: string;
+  change: "modified" | "removed";
+  /** Location in the base */
+  file: string;
+  lineno: number;
+  /** First commit at which the definition differed from the base; null when only uncommitted changes differ */
+  introducedBy: CommitInfo | null;
+  /** Later commits that changed it again */
+  changedAgainIn: CommitInfo[];
+}
+
+export interface BisectResult {
+  commits: BisectCommit[];
+  attributions: Attribution[];
+}
+
+/** The comparisons of one language at each commit, in commit order */
+export interface LanguageWalk {
+  language: BisectLanguage;
+  /** Each commit against its parent */
+  steps: ComparisonResult[];
+  /** Each commit against the base */
+  cumulative: ComparisonResult[];
+}
+
+export function countChanges(comparison: ComparisonResult): CommitCounts {
+  return {
+    removed: comparison.removed.length,
+    added: comparison.added.length,
+    modified: comparison.modified.length,
+    moved: comparison.moved.length,
+    renamed: comparison.renamed.length,
+  };
+}
+
+/** `2 modified, 1 removed`, or `structural` when only moves and renames remain */
+export function describeCounts(counts: CommitCounts): string {
+  const changes = (["modified", "removed", "added"] as const)
+    .filter(kind => counts[kind] > 0)
+    .map(kind => `${counts[kind]} ${kind}`);
+  if (changes.length > 0) return changes.join(", ");
+  const relocations = (["moved", "renamed"] as const).filter(kind => counts[kind] > 0).map(kind => `${counts[kind]} ${kind}`);
+  return relocations.length > 0 ? `structural (${relocations.join(", ")})` : "no definition changes";
+}
+
+/** Base definitions keep their location in every cumulative comparison, even across renames */
+function sameBaseDefinition(a: ComparisonItem, b: ComparisonItem): boolean {
+  return a.old !== undefined && b.old !== undefined && a.old.file === b.old.file && a.old.lineno === b.old.lineno;
+}
+
+/** The definition's state in a cumulative comparison: its new hash, "removed", or undefined while it matches the base */
+function divergence(comparison: ComparisonResult, item: ComparisonItem): string | undefined {
+  const modified = comparison.modified.find(candidate => sameBaseDefinition(candidate, item));
+  if (modified) return modified.new.hash;
+  return comparison.removed.some(candidate => sameBaseDefinition(candidate, item)) ? "removed" : undefined;
+}
+
+/** Attributes each modified or removed definition of the final comparison to the commits that changed it */
+export function attributeChanges(walk: LanguageWalk, commits: CommitInfo[], final: ComparisonResult): Attribution[] {
+  const changed = [
+    ...final.modified.map(item => ({ item, change: "modified" as const })),
+    ...final.removed.map(item => ({ item, change: "removed" as const })),
+  ];
+  return changed.flatMap(({ item, change }) => {
+    if (!item.old) return [];
+    const states = walk.cumulative.map(comparison => divergence(comparison, item));
+    const first = states.findIndex(state => state !== undefined);
+    const changedAgainIn = first < 0 ? [] : commits.filter((_, i) => i > first && states[i] !== undefined && states[i] !== states[i - 1]);
+    return [
+      {
+        language: walk.language,
+        key: item.key,
+        name: item.name,
+        kind: item.kind,
+        change,
+        file: item.old.file,
+        lineno: item.old.lineno,
+        introducedBy: first < 0 ? null : commits[first],
+        changedAgainIn,
+      },
+    ];
+  });
+}
+
+/** Attribution of a definition in a report, to annotate its result */
+export function findAttribution(
+  bisect: BisectResult | undefined,
+  language: BisectLanguage,
+  item: ComparisonItem
+): Attribution | undefined {
+  return bisect?.attributions.find(
+    attribution =>
+      attribution.language === language && attribution.file === item.old?.file && attribution.lineno === item.old.lineno
+  );
+}
+
+/** `a1b2c3d "Split utils" by Jane Doe` */
+export function describeCommit(commit: CommitInfo): string {
+  return `${commit.sha.substring(0, 7)} "${commit.subject}" by ${commit.author}`;
+}
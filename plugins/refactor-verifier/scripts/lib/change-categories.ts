@@ -0,0 +1,173 @@
+/**
+ * Semantic categories of a modification
+ *
+ * Both versions of a modified definition are parsed into a language-neutral
+ * syntax tree (see typescript-categories.ts and python-categories.ts) and
+ * diffed top-down. Identical subtrees are skipped; where the trees diverge,
+ * the role of the differing nodes names the change: a literal, an operator,
+ * an identifier, a callee, a branch or loop, and so on. Changes inside a
+ * decorator or a type annotation are reported as such whatever they touch.
+ * The diverging node pairs themselves are the change sites the detailed
+ * script highlights.
+ */
+
+import { CHANGE_CATEGORIES, type ChangeCategory } from "./cli";
+
+/**
+ * How a node takes part in a change:
+ * - identifier, literal, operator: leaves compared by kind and text
+ * - control:   branch, loop, return, throw, break and the like
+ * - call:      call or construction; the first child is the callee, the rest are arguments
+ * - decorator, type: every change beneath counts as a decorator or type change
+ * - placeholder: stands for a nested definition or member compared on its own;
+ *   a leaf whose text is the definition's key, so moving, adding or changing
+ *   the kind of one is a structure change
+ */
+export type SyntaxRole = "identifier" | "literal" | "operator" | "control" | "call" | "decorator" | "type" | "placeholder";
+
+export interface SyntaxTree {
+  kind: string;
+  role?: SyntaxRole;
+  /** Name, value or operator of a leaf */
+  text?: string;
+  /** Start and end offsets in the parsed source */
+  span?: [number, number];
+  children: SyntaxTree[];
+}
+
+/** Where two versions diverge: a node replaced, or a subtree added or removed */
+export interface ChangeSite {
+  category: ChangeCategory;
+  old?: SyntaxTree;
+  new?: SyntaxTree;
+}
+
+const LEAF_CATEGORIES: Partial<Record<SyntaxRole, ChangeCategory>> = {
+  identifier: "identifier",
+  literal: "literal",
+  operator: "operator",
+};
+
+const CONTEXT_CATEGORIES: Partial<Record<SyntaxRole, ChangeCategory>> = {
+  decorator: "decorator",
+  type: "type",
+};
+
+const hashes = new WeakMap<SyntaxTree, string>();
+
+function treeHash(tree: SyntaxTree): string {
+  let hash = hashes.get(tree);
+  if (hash === undefined) {
+    hash = Bun.hash(`${tree.kind}\0${tree.text ?? ""}\0${tree.children.map(treeHash).join(",")}`).toString(16);
+    hashes.set(tree, hash);
+  }
+  return hash;
+}
+
+function containsControl(tree: SyntaxTree): boolean {
+  return tree.role === "control" || tree.children.some(containsControl);
+}
+
+function contextOf(tree: SyntaxTree): ChangeCategory | undefined {
+  return tree.role && CONTEXT_CATEGORIES[tree.role];
+}
+
+/** A subtree added or removed as a whole */
+function subtreeCategory(tree: SyntaxTree, context: ChangeCategory | undefined): ChangeCategory {
+  return context ?? contextOf(tree) ?? (containsControl(tree) ? "control-flow" : "structure");
+}
+
+/** One subtree replaced by another of a different kind, or a leaf whose text changed */
+function replacementCategory(a: SyntaxTree, b: SyntaxTree, context: ChangeCategory | undefined): ChangeCategory {
+  if (context) return context;
+  const leaf = a.role === b.role && a.role ? LEAF_CATEGORIES[a.role] : undefined;
+  if (leaf) return leaf;
+  return contextOf(a) ?? contextOf(b) ?? (containsControl(a) || containsControl(b) ? "control-flow" : "structure");
+}
+
+/** Index pairs of a longest common subsequence of the two hash lists */
+function commonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) pairs.push([i++, j++]);
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+    else j++;
+  }
+  return pairs;
+}
+
+/**
+ * Aligns two child lists on their unchanged subtrees; between those anchors,
+ * children are paired in order and the surplus counts as added or removed.
+ */
+function diffChildren(a: SyntaxTree[], b: SyntaxTree[], context: ChangeCategory | undefined, found: ChangeSite[]) {
+  const anchors = [...commonSubsequence(a.map(treeHash), b.map(treeHash)), [a.length, b.length] as [number, number]];
+  let i = 0;
+  let j = 0;
+  for (const [anchorA, anchorB] of anchors) {
+    const olds = a.slice(i, anchorA);
+    const news = b.slice(j, anchorB);
+    for (let k = 0; k < Math.max(olds.length, news.length); k++) {
+      const oldChild = olds[k];
+      const newChild = news[k];
+      if (oldChild && newChild) diffTrees(oldChild, newChild, context, found);
+      else if (oldChild) found.push({ category: subtreeCategory(oldChild, context), old: oldChild });
+      else if (newChild) found.push({ category: subtreeCategory(newChild, context), new: newChild });
+    }
+    i = anchorA + 1;
+    j = anchorB + 1;
+  }
+}
+
+function diffCall(a: SyntaxTree, b: SyntaxTree, context: ChangeCategory | undefined, found: ChangeSite[]) {
+  const [oldCallee, ...oldArgs] = a.children;
+  const [newCallee, ...newArgs] = b.children;
+  diffTrees(oldCallee, newCallee, context ?? "call-target", found);
+
+  const oldHashes = oldArgs.map(treeHash);
+  const newHashes = newArgs.map(treeHash);
+  const permuted =
+    oldHashes.length === newHashes.length &&
+    oldHashes.join(",") !== newHashes.join(",") &&
+    [...oldHashes].sort().join(",") === [...newHashes].sort().join(",");
+  if (permuted) found.push({ category: context ?? "argument-order", old: a, new: b });
+  else diffChildren(oldArgs, newArgs, context, found);
+}
+
+function diffTrees(a: SyntaxTree, b: SyntaxTree, context: ChangeCategory | undefined, found: ChangeSite[]) {
+  if (treeHash(a) === treeHash(b)) return;
+  const inner = context ?? contextOf(a) ?? contextOf(b);
+  if (a.kind !== b.kind || (a.children.length === 0 && b.children.length === 0)) {
+    found.push({ category: replacementCategory(a, b, inner), old: a, new: b });
+  } else if (a.role === "call" && a.children.length > 0 && b.children.length > 0) {
+    diffCall(a, b, inner, found);
+  } else {
+    diffChildren(a.children, b.children, inner, found);
+  }
+}
+
+/** The smallest diverging nodes of two versions, in source order */
+export function changeSites(oldTree: SyntaxTree, newTree: SyntaxTree): ChangeSite[] {
+  const found: ChangeSite[] = [];
+  diffTrees(oldTree, newTree, undefined, found);
+  return found;
+}
+
+/**
+ * Categories of the differences between two versions, in `CHANGE_CATEGORIES`
+ * order. Versions whose trees are identical (the hash saw a difference the
+ * tree doesn't keep) report a structure change.
+ */
+export function categorizeChange(oldTree: SyntaxTree, newTree: SyntaxTree): ChangeCategory[] {
+  const found = new Set(changeSites(oldTree, newTree).map(site => site.category));
+  if (found.size === 0) found.add("structure");
+  return CHANGE_CATEGORIES.filter(category => found.has(category));
+}
@@ -0,0 +1,338 @@
+/**
+ * Command-line parsing shared by verify-refactor.ts and verify-refactor-detailed.ts
+ *
+ * Accepted forms:
+ *   <script> [--base <ref>] [--head <ref>] [--path <path>]... [--files <a,b>]...
+ *   <script> <base>..<head>     (compare two refs directly)
+ *   <script> <base>...<head>    (compare the merge base of both refs against head)
+ *   <script> <base>             (compare a ref against the working tree)
+ *   <script> --old-root <dir> --new-root <dir>   (compare two directories, no git needed)
+ *
+ * Settings from `.refactor-verifier.json` are merged in by config.ts; the
+ * options parsed here take precedence.
+ */
+
+import { parseArgs } from "node:util";
+import { parseRenameSpecs } from "./renames";
+
+export const OUTPUT_FORMATS = ["text", "json", "sarif", "markdown"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Where the new code is read from when no head ref is given:
+ * - worktree:  working tree, including untracked files not ignored by .gitignore
+ * - staged:    the index only (what the next commit would contain)
+ * - committed: HEAD only, ignoring uncommitted changes
+ *
+ * The "directories" mode, set by the `--old-root`/`--new-root` and
+ * `--old-files`/`--new-files` flags instead of `--mode`, reads both sides
+ * from disk without git.
+ */
+export const CHANGE_MODES = ["worktree", "staged", "committed"] as const;
+export type ChangeMode = (typeof CHANGE_MODES)[number] | "directories";
+
+/**
+ * Which TypeScript definitions are extracted:
+ * - nested:    also definitions inside function and method bodies (`fn:outer>fn:helper`)
+ * - top-level: module-level declarations, class members and namespace members only
+ */
+export const EXTRACTION_SCOPES = ["nested", "top-level"] as const;
+export type ExtractionScope = (typeof EXTRACTION_SCOPES)[number];
+
+/**
+ * What a modification changed, from a syntax-tree diff of both versions:
+ * - literal:        a string, number or boolean value
+ * - operator:       an arithmetic, comparison, logical or assignment operator
+ * - control-flow:   branches, loops, returns, throws or breaks added or removed
+ * - call-target:    the function or method being called
+ * - argument-order: the same call arguments in a different order
+ * - identifier:     a referenced or declared name
+ * - type:           a type annotation, type argument or type declaration
+ * - decorator:      a decorator added, removed or changed
+ * - structure:      anything else, e.g. statements added, removed or reordered
+ */
+export const CHANGE_CATEGORIES = [
+  "literal",
+  "operator",
+  "control-flow",
+  "call-target",
+  "argument-order",
+  "identifier",
+  "type",
+  "decorator",
+  "structure",
+] as const;
+export type ChangeCategory = (typeof CHANGE_CATEGORIES)[number];
+
+/**
+ * Differences a verification policy can accept with a warning instead of failing:
+ * - added:     definitions only in the new code
+ * - removed:   definitions only in the old code
+ * - modified:  definitions whose bodies changed, whatever the change categories
+ * - ambiguous: same-named definitions that can't be paired
+ */
+export const DIFFERENCE_KINDS = ["added", "removed", "modified", "ambiguous"] as const;
+export type DifferenceKind = (typeof DIFFERENCE_KINDS)[number];
+
+export interface CliOptions {
+  /** Explicit base ref; auto-detected when omitted */
+  base?: string;
+  /** Explicit head ref; the working tree is used when omitted */
+  head?: string;
+  /** Compare against merge-base(base, head) instead of base itself (A...B) */
+  mergeBase: boolean;
+  /** Source of the new code; only "committed" applies when a head ref is given */
+  mode: ChangeMode;
+  /** Path prefixes the changed-file set is scoped to */
+  paths: string[];
+  /** Explicit file list, bypasses `git diff` detection */
+  files: string[];
+  /** Directory the old code is read from, without git */
+  oldRoot?: string;
+  /** Directory the new code is read from, without git */
+  newRoot?: string;
+  /** Files making up the old side, relative to its root; every file under it when empty */
+  oldFiles: string[];
+  /** Files making up the new side, relative to its root; every file under it when empty */
+  newFiles: string[];
+  /** Globs a changed file must match one of; every file when empty */
+  include: string[];
+  /** Globs of changed files to skip; the config's, or declaration files, when empty */
+  exclude: string[];
+  /** Explicit `old name → new name` mappings for rename detection */
+  renames: Record<string, string>;
+  /** Report format written to stdout */
+  format: OutputFormat;
+  /** TypeScript extraction depth */
+  scope: ExtractionScope;
+  /** Treat definitions differing only in locally bound names as equivalent */
+  alpha: boolean;
+  /** Check that imports of moved definitions still resolve to the same code */
+  checkImports: boolean;
+  /** Compare the exported declarations of each package entry point */
+  apiSurface: boolean;
+  /** Map which lines of each old file the new code accounts for */
+  coverage: boolean;
+  /** Change categories that fail the verdict; every modification fails when omitted */
+  blocking?: ChangeCategory[];
+  /** Differences that pass with a warning; the config's when omitted */
+  allow?: DifferenceKind[];
+  /** Config file to read instead of `.refactor-verifier.json` at the repository root */
+  config?: string;
+  /** Waiver file to read instead of the config's or the repository root's */
+  waivers?: string;
+  /** Add blank waivers for the failing modifications to the waiver file */
+  writeWaivers: boolean;
+  /** Attribute each modified or removed definition to the commit of base..head that first changed it */
+  bisect: boolean;
+  /** Report the time spent in each phase */
+  timings: boolean;
+  /** Reuse definitions extracted by earlier runs from the on-disk cache */
+  cache: boolean;
+  /** Parallel extraction processes and workers */
+  jobs: number;
+  /** Unchanged lines shown around each change in line diffs */
+  context: number;
+  /** Truncate diff lines to this many characters; lines are shown in full when omitted */
+  maxWidth?: number;
+  /** Diff long replaced lines word by word */
+  wordDiff: boolean;
+  help: boolean;
+}
+
+export function formatUsage(script: string): string {
+  return `Usage: bun run ${script} [options] [<base> | <base>..<head> | <base>...<head>]
+
+Options:
+  --base <ref>      Base ref to compare against (default: the config's base, else origin/staging, origin/main, HEAD~1)
+  --head <ref>      Head ref to verify (default: working tree)
+  --mode <mode>     New code source without --head: ${CHANGE_MODES.join(", ")} (default: worktree)
+  --path <path>     Only verify files under this path (repeatable)
+  --files <list>    Comma-separated files to verify instead of the git diff (repeatable)
+  --old-root <dir>  Read the old code from this directory instead of git (default with --old-files: current directory)
+  --new-root <dir>  Read the new code from this directory instead of git (default with --new-files: current directory)
+  --old-files <list> Comma-separated files making up the old side, relative to its root (repeatable, default: every file)
+  --new-files <list> Comma-separated files making up the new side, relative to its root (repeatable, default: every file)
+  --include <glob>  Only verify files matching this glob (repeatable)
+  --exclude <glob>  Skip files matching this glob (repeatable, default: **/*.d.ts)
+  --rename <a=b>    Treat definition a as renamed to b (comma-separated, repeatable)
+  --format <fmt>    Output format: ${OUTPUT_FORMATS.join(", ")} (default: text)
+  --scope <scope>   TypeScript definitions to extract: ${EXTRACTION_SCOPES.join(", ")} (default: nested)
+  --alpha           Accept renamed parameters and local variables as equivalent (verify-refactor.ts only)
+  --check-imports   Check that imports, re-exports and import cycles survive the moves (verify-refactor.ts only)
+  --api-surface     Compare the emitted .d.ts exports of each package entry point (verify-refactor.ts only)
+  --coverage        Report which lines of each old file are accounted for in the new code (verify-refactor.ts only)
+  --blocking <list> Only fail on modifications in these categories, comma-separated: ${CHANGE_CATEGORIES.join(", ")} (verify-refactor.ts only)
+  --allow <list>    Accept these differences with a warning, comma-separated: ${DIFFERENCE_KINDS.join(", ")} (verify-refactor.ts only)
+  --config <file>   Read the verification policy from this file (default: .refactor-verifier.json at the repository root)
+  --waivers <file>  Read approved changes from this file (default: .refactor-verifier-waivers.json at the repository root, verify-refactor.ts only)
+  --write-waivers   Add entries for the failing modifications to the waiver file, to fill in and commit (verify-refactor.ts only)
+  --bisect          Walk base..head commit by commit and report which commit changed each definition (verify-refactor.ts only)
+  --timings         Report the time spent in each phase and the extraction cache hits (verify-refactor.ts only)
+  --no-cache        Extract every file again instead of reusing earlier runs' results
+  --jobs <n>        Parallel extraction processes and workers (default: the number of CPUs)
+  --context <n>     Unchanged lines shown around each change (default: 3, verify-refactor-detailed.ts only)
+  --max-width <n>   Truncate diff lines to n characters (default: no truncation, verify-refactor-detailed.ts only)
+  --word-diff       Show long replaced lines as one line with [-removed-]{+added+} words (verify-refactor-detailed.ts only)
+  -h, --help        Show this help`;
+}
+
+function splitRange(range: string): { base: string; head: string; mergeBase: boolean } | null {
+  const symmetric = range.indexOf("...");
+  if (symmetric !== -1) {
+    return { base: range.slice(0, symmetric), head: range.slice(symmetric + 3), mergeBase: true };
+  }
+  const direct = range.indexOf("..");
+  if (direct !== -1) {
+    return { base: range.slice(0, direct), head: range.slice(direct + 2), mergeBase: false };
+  }
+  return null;
+}
+
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback;
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`Unknown ${flag} "${value}", expected one of: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+function parseCount(flag: string, value: string | undefined, minimum: number): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!/^\d+$/.test(value) || count < minimum) {
+    throw new Error(`Invalid ${flag} "${value}", expected a whole number of at least ${minimum}`);
+  }
+  return count;
+}
+
+/** Comma-separated, repeatable list flag; undefined when the flag is absent */
+function splitList(values: string[] | undefined): string[] | undefined {
+  return values
+    ?.flatMap(list => list.split(","))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      base: { type: "string" },
+      head: { type: "string" },
+      mode: { type: "string" },
+      path: { type: "string", multiple: true },
+      files: { type: "string", multiple: true },
+      "old-root": { type: "string" },
+      "new-root": { type: "string" },
+      "old-files": { type: "string", multiple: true },
+      "new-files": { type: "string", multiple: true },
+      include: { type: "string", multiple: true },
+      exclude: { type: "string", multiple: true },
+      rename: { type: "string", multiple: true },
+      format: { type: "string" },
+      scope: { type: "string" },
+      alpha: { type: "boolean" },
+      "check-imports": { type: "boolean" },
+      "api-surface": { type: "boolean" },
+      coverage: { type: "boolean" },
+      blocking: { type: "string", multiple: true },
+      allow: { type: "string", multiple: true },
+      config: { type: "string" },
+      waivers: { type: "string" },
+      "write-waivers": { type: "boolean" },
+      bisect: { type: "boolean" },
+      timings: { type: "boolean" },
+      "no-cache": { type: "boolean" },
+      jobs: { type: "string" },
+      context: { type: "string" },
+      "max-width": { type: "string" },
+      "word-diff": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+  });
+
+  const options: CliOptions = {
+    base: values.base,
+    head: values.head,
+    mergeBase: false,
+    mode: parseChoice("--mode", values.mode, CHANGE_MODES, "worktree"),
+    paths: (values.path ?? []).map(normalizePath).filter(p => p.length > 0 && p !== "."),
+    files: (values.files ?? [])
+      .flatMap(list => list.split(","))
+      .map(f => normalizePath(f.trim()))
+      .filter(f => f.length > 0),
+    oldRoot: values["old-root"],
+    newRoot: values["new-root"],
+    oldFiles: (splitList(values["old-files"]) ?? []).map(normalizePath),
+    newFiles: (splitList(values["new-files"]) ?? []).map(normalizePath),
+    include: values.include ?? [],
+    exclude: values.exclude ?? [],
+    renames: parseRenameSpecs(values.rename ?? []),
+    format: parseChoice("--format", values.format, OUTPUT_FORMATS, "text"),
+    scope: parseChoice("--scope", values.scope, EXTRACTION_SCOPES, "nested"),
+    alpha: values.alpha ?? false,
+    checkImports: values["check-imports"] ?? false,
+    apiSurface: values["api-surface"] ?? false,
+    coverage: values.coverage ?? false,
+    blocking: splitList(values.blocking)?.map(category => parseChoice("--blocking", category, CHANGE_CATEGORIES, "structure")),
+    allow: splitList(values.allow)?.map(kind => parseChoice("--allow", kind, DIFFERENCE_KINDS, "added")),
+    config: values.config,
+    waivers: values.waivers,
+    writeWaivers: values["write-waivers"] ?? false,
+    bisect: values.bisect ?? false,
+    timings: values.timings ?? false,
+    cache: !values["no-cache"],
+    jobs: parseCount("--jobs", values.jobs, 1) ?? navigator.hardwareConcurrency,
+    context: parseCount("--context", values.context, 0) ?? 3,
+    maxWidth: parseCount("--max-width", values["max-width"], 1),
+    wordDiff: values["word-diff"] ?? false,
+    help: values.help ?? false,
+  };
+
+  if (positionals.length > 1) {
+    throw new Error(`Expected at most one ref or range, got: ${positionals.join(" ")}`);
+  }
+
+  if (positionals.length === 1) {
+    if (options.base || options.head) {
+      throw new Error("A positional ref/range cannot be combined with --base or --head");
+    }
+    const range = splitRange(positionals[0]);
+    if (range) {
+      // Empty sides follow git semantics: "A.." means A..HEAD
+      options.base = range.base || "HEAD";
+      options.head = range.head || "HEAD";
+      options.mergeBase = range.mergeBase;
+    } else {
+      options.base = positionals[0];
+    }
+  }
+
+  const oldSide = options.oldRoot !== undefined || options.oldFiles.length > 0;
+  const newSide = options.newRoot !== undefined || options.newFiles.length > 0;
+  if (oldSide || newSide) {
+    if (!oldSide || !newSide) {
+      throw new Error("Comparing files on disk needs both sides: --old-root or --old-files, and --new-root or --new-files");
+    }
+    if (options.base || options.head || values.mode !== undefined) {
+      throw new Error("--old-root, --new-root, --old-files and --new-files cannot be combined with refs or --mode");
+    }
+    if (options.bisect) throw new Error("--bisect walks git commits and cannot compare files on disk");
+    options.mode = "directories";
+  }
+
+  if (options.head) {
+    if (values.mode !== undefined && options.mode !== "committed") {
+      throw new Error(`--mode ${options.mode} cannot be combined with a head ref; only "committed" applies`);
+    }
+    options.mode = "committed";
+  }
+
+  return options;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import {
+  compareEntries,
+  describePassWithWarnings,
+  evaluateComparison,
+  type ChangeClassification,
+  type DefinitionEntry,
+} from "./comparison";
+
+function entry(file: string, name: string, body: string, extra: Partial<DefinitionEntry> = {}): DefinitionEntry {
+  return {
+    key: `fn:${name}`,
+    name,
+    kind: "function",
+    file,
+    lineno: 1,
+    hash: Bun.hash(body).toString(16),
+    body,
+    anonymized: body,
+    ...extra,
+  };
+}
+
+describe("compareEntries", () => {
+  test("pairs same-named definitions by file instead of letting one overwrite the other", () => {
+    const result = compareEntries(
+      [entry("a/utils.ts", "parse", "return a"), entry("b/utils.ts", "parse", "return b")],
+      [entry("a/utils.ts", "parse", "return a"), entry("b/utils.ts", "parse", "return b + 1")]
+    );
+    expect(result.matching.map(item => item.old?.file)).toEqual(["a/utils.ts"]);
+    expect(result.modified.map(item => [item.old.file, item.new.file])).toEqual([["b/utils.ts", "b/utils.ts"]]);
+    expect(result.identical).toBe(false);
+  });
+
+  test("reports an unchanged definition in another file as moved", () => {
+    const result = compareEntries([entry("index.ts", "parseConfig", "body")], [entry("config/parse.ts", "parseConfig", "body")]);
+    expect(result.moved).toHaveLength(1);
+    expect(result.moved[0].new.file).toBe("config/parse.ts");
+    expect(result.identical).toBe(true);
+  });
+
+  test("reports a changed definition in another file as modified and moved", () => {
+    const result = compareEntries([entry("index.ts", "parse", "old")], [entry("parse.ts", "parse", "new")]);
+    expect(result.modified.map(item => item.reason)).toEqual(["moved and body changed"]);
+  });
+
+  test("flags same-named definitions it can't pair with certainty as ambiguous", () => {
+    const result = compareEntries(
+      [entry("a.ts", "helper", "x"), entry("b.ts", "helper", "y")],
+      [entry("c.ts", "helper", "x2"), entry("d.ts", "helper", "y2")]
+    );
+    expect(result.ambiguous).toHaveLength(1);
+    expect(result.ambiguous[0].old).toHaveLength(2);
+    expect(result.modified).toHaveLength(0);
+    expect(result.identical).toBe(false);
+  });
+
+  test("reports removed and added definitions", () => {
+    const result = compareEntries([entry("a.ts", "gone", "1")], [entry("a.ts", "fresh", "2")]);
+    expect(result.removed.map(item => item.key)).toEqual(["fn:gone"]);
+    expect(result.added.map(item => item.key)).toEqual(["fn:fresh"]);
+  });
+
+  test("follows a callable moved to another container by its callable hash", () => {
+    const result = compareEntries(
+      [entry("a.ts", "load", "m", { key: "class:A>method:load", kind: "method", callableHash: "c1" })],
+      [entry("a.ts", "load", "f", { key: "fn:load", callableHash: "c1" })]
+    );
+    expect(result.moved.map(item => [item.oldKey, item.key])).toEqual([["class:A>method:load", "fn:load"]]);
+  });
+
+  test("pairs a renamed definition whose body only differs by its name", () => {
+    const anonymized = "function <self> ( ) { return <self> ( ) }";
+    const result = compareEntries(
+      [entry("a.ts", "save", "function save ( ) { return save ( ) }", { anonymized })],
+      [entry("a.ts", "persist", "function persist ( ) { return persist ( ) }", { anonymized })]
+    );
+    expect(result.renamed.map(item => [item.oldName, item.name, item.confidence])).toEqual([["save", "persist", "high"]]);
+    expect(result.identical).toBe(true);
+  });
+});
+
+describe("evaluateComparison", () => {
+  function modification(classification: ChangeClassification) {
+    const result = compareEntries([entry("a.ts", "f", "old")], [entry("a.ts", "f", "new")]);
+    result.modified[0].classification = classification;
+    return result;
+  }
+
+  test("only calls runtime unchanged when every modification is type-only", () => {
+    const verdict = evaluateComparison(modification("type-only"), "TypeScript");
+    expect(verdict.warnings).toEqual(["TypeScript: 1 modified definitions are type-only changes that emit identical JavaScript"]);
+    expect(describePassWithWarnings(verdict.reasons)).toBe("Runtime behaviour is unchanged");
+  });
+
+  test("lists the warnings that fired otherwise", () => {
+    const reasons = [
+      ...evaluateComparison(modification("type-only"), "TypeScript").reasons,
+      ...evaluateComparison(modification("local-renames"), "Python").reasons,
+    ];
+    expect(describePassWithWarnings(reasons)).toBe(
+      "Only type-only modifications and modifications equivalent modulo local renames"
+    );
+    expect(describePassWithWarnings(["dropped-imports"])).toBe("Only dropped imports");
+  });
+});
@@ -0,0 +1,614 @@
+/**
+ * Definition comparison shared by both languages.
+ *
+ * Definitions are tracked per file: each entry carries its file, so two
+ * `helper` functions in different files never overwrite each other. Entries
+ * are paired by key (kind + qualified name) and body hash, which lets the
+ * comparison report moves between files instead of merging everything into
+ * one namespace.
+ */
+
+import type { ApiSurfaceDiff } from "./api-surface";
+import type { BisectResult } from "./bisect";
+import type { ChangeCategory, DifferenceKind } from "./cli";
+import { DEFAULT_POLICY, policyFor, type VerificationPolicy } from "./config";
+import type { FileCoverage } from "./coverage";
+import type { ExtractionError } from "./extraction";
+import type { RefRange } from "./git";
+import type { IntegrityIssue } from "./integrity";
+import {
+  compareModuleStatements,
+  isBenignStatementChange,
+  type ModuleStatement,
+  type StatementItem,
+} from "./module-statements";
+import { detectRenames, type RenameConfidence } from "./renames";
+import type { TimingReport } from "./timings";
+import type { Waiver } from "./waivers";
+
+/** A single extracted definition with its provenance */
+export interface DefinitionEntry {
+  /**
+   * Kind-prefixed name qualified by its containment path, unique within a file
+   * (e.g. `fn:parseConfig`, `class:Config>method:load`)
+   */
+  key: string;
+  /** Local name, without the containment path */
+  name: string;
+  kind: string;
+  file: string;
+  lineno: number;
+  /** First and last source line, decorators included */
+  lines?: [number, number];
+  hash: string;
+  body: string;
+  /** Normalized body with the definition's own name replaced by a placeholder, for rename detection */
+  anonymized: string;
+  /** Key of the enclosing definition, for nested definitions and members */
+  container?: string;
+  containerKind?: "class" | "namespace" | "function";
+  /** Hash of a callable's parameters and body alone, independent of its name and container */
+  callableHash?: string;
+  /** Hash of the body without type annotations and docstrings (Python) */
+  strippedHash?: string;
+  /** Hash of the signature shape: arg list, decorators, async-ness (Python) */
+  signatureHash?: string;
+  /** Hash with locally bound identifiers replaced by positional placeholders */
+  alphaHash?: string;
+  /** Locally bound names in placeholder order, to report the rename map */
+  localNames?: string[];
+}
+
+export interface DefinitionLocation {
+  file: string;
+  lineno: number;
+  hash: string;
+}
+
+export interface ComparisonItem {
+  key: string;
+  name: string;
+  kind: string;
+  old?: DefinitionLocation;
+  new?: DefinitionLocation;
+}
+
+/**
+ * Second-tier classification of a modification, when the language supports one:
+ * - type-only:       TypeScript change that emits identical JavaScript
+ * - runtime:         TypeScript change that alters the emitted JavaScript
+ * - annotation-only: Python change limited to type annotations and docstrings
+ * - signature:       Python arg list, decorators, async-ness or bases changed
+ * - logic:           Python body changed with the signature intact
+ * - local-renames:   only locally bound identifiers were renamed (alpha-equivalence mode, both languages)
+ */
+export type ChangeClassification =
+  | "type-only"
+  | "runtime"
+  | "annotation-only"
+  | "signature"
+  | "logic"
+  | "local-renames";
+
+/** Classifications that cannot alter behaviour; they pass the verdict with a warning */
+const BENIGN_CLASSIFICATIONS: ReadonlySet<ChangeClassification> = new Set([
+  "type-only",
+  "annotation-only",
+  "local-renames",
+]);
+
+export interface ModifiedItem extends ComparisonItem {
+  reason: string;
+  old: DefinitionLocation;
+  new: DefinitionLocation;
+  classification?: ChangeClassification;
+  /** `old local → new local` for "local-renames" modifications */
+  localRenames?: Record<string, string>;
+  /** What the change touched, from a syntax-tree diff of both versions */
+  categories?: ChangeCategory[];
+  /** Source of both versions, used by reporters that embed diffs */
+  bodies?: { old: string; new: string };
+  /** Waiver approving exactly this change */
+  waiver?: Waiver;
+  /** Waiver for the same definition that a later edit invalidated */
+  staleWaiver?: Waiver;
+}
+
+/**
+ * Same key and body hash, found in a different file; or a callable whose
+ * parameters and body are unchanged but which moved to another container
+ * (method moved between classes or turned into a free function), in which
+ * case `oldKey`/`oldName` hold the previous identity.
+ */
+export interface MovedItem extends ComparisonItem {
+  old: DefinitionLocation;
+  new: DefinitionLocation;
+  oldKey?: string;
+  oldName?: string;
+}
+
+/** Removed/added pair whose bodies are identical modulo the name; `key`/`name` are the new ones */
+export interface RenamedItem extends ComparisonItem {
+  oldKey: string;
+  oldName: string;
+  confidence: RenameConfidence;
+  old: DefinitionLocation;
+  new: DefinitionLocation;
+}
+
+/** Several same-named definitions whose old/new pairing cannot be decided */
+export interface AmbiguousItem {
+  key: string;
+  name: string;
+  kind: string;
+  reason: string;
+  old: DefinitionLocation[];
+  new: DefinitionLocation[];
+}
+
+export interface ComparisonResult {
+  identical: boolean;
+  added: ComparisonItem[];
+  removed: ComparisonItem[];
+  modified: ModifiedItem[];
+  moved: MovedItem[];
+  renamed: RenamedItem[];
+  ambiguous: AmbiguousItem[];
+  matching: ComparisonItem[];
+  /** Module statements lost, duplicated, added or reordered across the changed files */
+  statements: StatementItem[];
+}
+
+export interface CompareOptions {
+  /** Explicit `old name → new name` mappings for renames the heuristic can't resolve */
+  renames?: Record<string, string>;
+  /** Tags each modified pair with a language-specific classification */
+  classify?: (oldEntry: DefinitionEntry, newEntry: DefinitionEntry) => ChangeClassification | undefined;
+  /** Categorizes each modification; languages that categorize in a batch afterwards leave it unset */
+  categorize?: (oldEntry: DefinitionEntry, newEntry: DefinitionEntry) => ChangeCategory[];
+  /** Classify pairs that differ only in locally bound names as "local-renames" */
+  alpha?: boolean;
+  /** Module statements of the old and new files, compared alongside the definitions */
+  statements?: { old: ModuleStatement[]; new: ModuleStatement[] };
+}
+
+/** Everything a reporter needs to render the outcome of one verification run */
+export interface VerificationReport {
+  range: RefRange;
+  files: { python: string[]; typescript: string[] };
+  python: ComparisonResult | null;
+  typescript: ComparisonResult | null;
+  /** Changed files whose definitions could not be extracted; any fails the verdict */
+  extractionErrors: ExtractionError[];
+  /** Import integrity issues; empty unless `--check-imports` was given */
+  integrity: IntegrityIssue[];
+  /** Exported API differences per entry point; empty unless `--api-surface` was given */
+  api: ApiSurfaceDiff[];
+  /** Line coverage of each old file; empty unless `--coverage` was given */
+  coverage: FileCoverage[];
+  /** Commit attribution of each difference; unset unless `--bisect` was given */
+  bisect?: BisectResult;
+  /** Time spent per phase; unset unless `--timings` was given */
+  timings?: TimingReport;
+  /** Differences the verdict accepts, from the config and `--allow`/`--blocking` */
+  policy: VerificationPolicy;
+  /** Config file the policy was read from */
+  configFile?: string;
+  passed: boolean;
+  /** Reasons the verdict passed despite differences */
+  warnings: string[];
+}
+
+/**
+ * Benign modifications pass the verdict with a warning: those approved by a
+ * waiver, those classified as unable to alter behaviour and, under a policy,
+ * those it allows outright or whose categories are all non-blocking.
+ */
+export function isBenignModification(item: ModifiedItem, policy?: VerificationPolicy): boolean {
+  if (item.waiver) return true;
+  if (item.classification !== undefined && BENIGN_CLASSIFICATIONS.has(item.classification)) return true;
+  if (!policy) return false;
+  const { allow, blocking } = policyFor(policy, item.new.file);
+  if (allow.includes("modified")) return true;
+  return blocking !== undefined && item.categories !== undefined && !item.categories.some(c => blocking.includes(c));
+}
+
+/** Whether the policy accepts an added, removed or ambiguous definition; every file it spans must allow it */
+export function isAllowedDifference(
+  kind: DifferenceKind,
+  item: ComparisonItem | AmbiguousItem,
+  policy: VerificationPolicy
+): boolean {
+  const files = [item.old, item.new].flat().flatMap(location => (location ? [location.file] : []));
+  return files.length > 0 && files.every(file => policyFor(policy, file).allow.includes(kind));
+}
+
+/** What a comparison that passes with warnings let through */
+export type WarningReason =
+  | "waiver"
+  | "type-only"
+  | "annotation-only"
+  | "local-renames"
+  | "non-blocking"
+  | "allowed"
+  | "dropped-imports";
+
+export interface ComparisonVerdict {
+  passed: boolean;
+  warnings: string[];
+  reasons: WarningReason[];
+}
+
+/** Benign classifications and how their warning describes them; only type-only ones emit identical code */
+const CLASSIFICATION_WARNINGS: Array<[WarningReason & ChangeClassification, string]> = [
+  ["type-only", "type-only changes that emit identical JavaScript"],
+  ["annotation-only", "annotation-only changes"],
+  ["local-renames", "equivalent modulo local renames"],
+];
+
+/** Each warning reason as the headline of a pass with warnings lists it, in headline order */
+const REASON_DESCRIPTIONS: Array<[WarningReason, string]> = [
+  ["waiver", "modifications approved by waivers"],
+  ["type-only", "type-only modifications"],
+  ["annotation-only", "annotation-only modifications"],
+  ["local-renames", "modifications equivalent modulo local renames"],
+  ["non-blocking", "modifications outside the blocking categories"],
+  ["allowed", "differences the verification policy allows"],
+  ["dropped-imports", "dropped imports"],
+];
+
+/**
+ * A comparison passes when it is identical, or when its only differences are
+ * benign modifications (e.g. approved, type-only, or outside the blocking categories),
+ * differences the policy allows and dropped imports, which yield warnings.
+ */
+export function evaluateComparison(
+  comparison: ComparisonResult | null,
+  label: string,
+  policy: VerificationPolicy = DEFAULT_POLICY
+): ComparisonVerdict {
+  if (!comparison || comparison.identical) return { passed: true, warnings: [], reasons: [] };
+
+  const added = comparison.added.filter(item => isAllowedDifference("added", item, policy));
+  const removed = comparison.removed.filter(item => isAllowedDifference("removed", item, policy));
+  const ambiguous = comparison.ambiguous.filter(item => isAllowedDifference("ambiguous", item, policy));
+  const structural =
+    added.length === comparison.added.length &&
+    removed.length === comparison.removed.length &&
+    ambiguous.length === comparison.ambiguous.length &&
+    comparison.statements.every(isBenignStatementChange);
+  const benign = comparison.modified.filter(item => isBenignModification(item, policy));
+
+  if (structural && benign.length === comparison.modified.length) {
+    const warnings: string[] = [];
+    const reasons: WarningReason[] = [];
+    const approved = benign.filter(item => item.waiver);
+    if (approved.length > 0) {
+      warnings.push(`${label}: ${approved.length} modified definitions are approved by waivers`);
+      reasons.push("waiver");
+    }
+    const unchanged = benign.filter(item => !item.waiver && isBenignModification(item));
+    for (const [classification, description] of CLASSIFICATION_WARNINGS) {
+      const classified = unchanged.filter(item => item.classification === classification);
+      if (classified.length > 0) {
+        warnings.push(`${label}: ${classified.length} modified definitions are ${description}`);
+        reasons.push(classification);
+      }
+    }
+    const accepted = benign.filter(item => !isBenignModification(item));
+    const modified = accepted.filter(item => policyFor(policy, item.new.file).allow.includes("modified"));
+    const nonBlocking = accepted.filter(item => !modified.includes(item));
+    if (nonBlocking.length > 0) {
+      const categories = [...new Set(nonBlocking.flatMap(item => item.categories ?? []))].join(", ");
+      warnings.push(`${label}: ${nonBlocking.length} modified definitions only have non-blocking ${categories} changes`);
+      reasons.push("non-blocking");
+    }
+    const allowed = { added, removed, modified, ambiguous };
+    for (const [kind, items] of Object.entries(allowed)) {
+      if (items.length === 0) continue;
+      warnings.push(`${label}: ${items.length} ${kind} definitions are allowed by the verification policy`);
+      if (!reasons.includes("allowed")) reasons.push("allowed");
+    }
+    if (comparison.statements.length > 0) {
+      warnings.push(`${label}: ${comparison.statements.length} imports were dropped from every file`);
+      reasons.push("dropped-imports");
+    }
+    return { passed: true, warnings, reasons };
+  }
+  return { passed: false, warnings: [], reasons: [] };
+}
+
+/**
+ * Headline of a pass with warnings, listing what was let through. Runtime
+ * behaviour is only called unchanged when every modification emitted
+ * identical JavaScript.
+ */
+export function describePassWithWarnings(reasons: WarningReason[]): string {
+  if (reasons.length > 0 && reasons.every(reason => reason === "type-only")) return "Runtime behaviour is unchanged";
+  const descriptions = REASON_DESCRIPTIONS.filter(([reason]) => reasons.includes(reason)).map(([, text]) => text);
+  const last = descriptions.pop();
+  return `Only ${descriptions.length > 0 ? `${descriptions.join(", ")} and ${last}` : last}`;
+}
+
+/** `type-only change`, or `equivalent modulo local renames: res → response` */
+export function describeClassification(item: ModifiedItem): string | undefined {
+  if (!item.classification) return undefined;
+  if (item.classification !== "local-renames") return `${item.classification} change`;
+  const renames = Object.entries(item.localRenames ?? {}).map(([from, to]) => `${from} → ${to}`);
+  return `equivalent modulo local renames: ${renames.join(", ")}`;
+}
+
+/** `literal, control-flow` */
+export function describeCategories(item: ModifiedItem): string | undefined {
+  return item.categories && item.categories.length > 0 ? item.categories.join(", ") : undefined;
+}
+
+/** Containment path of a nested definition: `class:Foo` for `class:Foo>method:bar` */
+export function containerPath(key: string): string | undefined {
+  const separator = key.lastIndexOf(">");
+  return separator === -1 ? undefined : key.slice(0, separator);
+}
+
+/** `kind: name`, followed by the containment path for nested definitions */
+export function describeItem(item: Pick<ComparisonItem, "key" | "kind" | "name">): string {
+  const path = containerPath(item.key);
+  return path ? `${item.kind}: ${item.name} in ${path}` : `${item.kind}: ${item.name}`;
+}
+
+export function formatLocation(location: Pick<DefinitionLocation, "file" | "lineno">): string {
+  return `${location.file}:${location.lineno}`;
+}
+
+function toLocation(entry: DefinitionEntry): DefinitionLocation {
+  return { file: entry.file, lineno: entry.lineno, hash: entry.hash };
+}
+
+function pairItem(oldEntry: DefinitionEntry, newEntry: DefinitionEntry) {
+  return {
+    key: oldEntry.key,
+    name: oldEntry.name,
+    kind: oldEntry.kind,
+    old: toLocation(oldEntry),
+    new: toLocation(newEntry),
+  };
+}
+
+function modifiedItem(
+  oldEntry: DefinitionEntry,
+  newEntry: DefinitionEntry,
+  reason: string,
+  options: CompareOptions
+): ModifiedItem {
+  const item: ModifiedItem = {
+    ...pairItem(oldEntry, newEntry),
+    reason,
+    bodies: { old: oldEntry.body, new: newEntry.body },
+  };
+  if (options.categorize) item.categories = options.categorize(oldEntry, newEntry);
+  if (options.alpha && oldEntry.alphaHash !== undefined && oldEntry.alphaHash === newEntry.alphaHash) {
+    item.classification = "local-renames";
+    item.localRenames = localRenameMap(oldEntry.localNames ?? [], newEntry.localNames ?? []);
+    return item;
+  }
+  const classification = options.classify?.(oldEntry, newEntry);
+  if (classification) item.classification = classification;
+  return item;
+}
+
+/** Pairs locals by placeholder position, keeping only the ones whose name changed */
+function localRenameMap(oldNames: string[], newNames: string[]): Record<string, string> {
+  const renames: Record<string, string> = {};
+  oldNames.forEach((name, i) => {
+    if (newNames[i] !== undefined && newNames[i] !== name) renames[name] ??= newNames[i];
+  });
+  return renames;
+}
+
+function groupByKey(entries: DefinitionEntry[]): Map<string, DefinitionEntry[]> {
+  const groups = new Map<string, DefinitionEntry[]>();
+  for (const entry of entries) {
+    const group = groups.get(entry.key);
+    if (group) group.push(entry);
+    else groups.set(entry.key, [entry]);
+  }
+  return groups;
+}
+
+/**
+ * Pairs all old and new definitions sharing one key. Pairing runs in passes
+ * from most to least certain:
+ *   1. same file, same hash  → matching
+ *   2. other file, same hash → moved (only when exactly one candidate on each side)
+ *   3. same file, new hash   → modified
+ *   4. other file, new hash  → modified and moved (only when one entry is left on each side)
+ * Whatever still has several candidates is flagged ambiguous; the rest is left
+ * unpaired for rename detection.
+ */
+function compareKeyGroup(
+  oldGroup: DefinitionEntry[],
+  newGroup: DefinitionEntry[],
+  result: ComparisonResult,
+  unpaired: { removed: DefinitionEntry[]; added: DefinitionEntry[] },
+  options: CompareOptions
+) {
+  const oldLeft = new Set(oldGroup);
+  const newLeft = new Set(newGroup);
+  const take = (oldEntry: DefinitionEntry, newEntry: DefinitionEntry) => {
+    oldLeft.delete(oldEntry);
+    newLeft.delete(newEntry);
+  };
+
+  // Pass 1: unchanged in place
+  for (const oldEntry of oldLeft) {
+    const newEntry = [...newLeft].find(e => e.file === oldEntry.file && e.hash === oldEntry.hash);
+    if (newEntry) {
+      take(oldEntry, newEntry);
+      result.matching.push(pairItem(oldEntry, newEntry));
+    }
+  }
+
+  // Pass 2: identical body in another file
+  const hashes = new Set([...oldLeft].map(e => e.hash));
+  for (const hash of hashes) {
+    const olds = [...oldLeft].filter(e => e.hash === hash);
+    const news = [...newLeft].filter(e => e.hash === hash);
+    if (news.length === 0) continue;
+
+    if (olds.length === 1 && news.length === 1) {
+      take(olds[0], news[0]);
+      result.moved.push(pairItem(olds[0], news[0]));
+    } else {
+      for (const entry of olds) oldLeft.delete(entry);
+      for (const entry of news) newLeft.delete(entry);
+      result.ambiguous.push({
+        key: olds[0].key,
+        name: olds[0].name,
+        kind: olds[0].kind,
+        reason: `identical body found in ${olds.length} old and ${news.length} new locations`,
+        old: olds.map(toLocation),
+        new: news.map(toLocation),
+      });
+    }
+  }
+
+  // Pass 3: changed in place
+  for (const oldEntry of oldLeft) {
+    const newEntry = [...newLeft].find(e => e.file === oldEntry.file);
+    if (newEntry) {
+      take(oldEntry, newEntry);
+      result.modified.push(modifiedItem(oldEntry, newEntry, "body changed", options));
+    }
+  }
+
+  // Pass 4: changed and moved, or ambiguous
+  if (oldLeft.size === 1 && newLeft.size === 1) {
+    const [oldEntry] = oldLeft;
+    const [newEntry] = newLeft;
+    take(oldEntry, newEntry);
+    result.modified.push(modifiedItem(oldEntry, newEntry, "moved and body changed", options));
+  } else if (oldLeft.size > 0 && newLeft.size > 0) {
+    const [first] = oldLeft;
+    result.ambiguous.push({
+      key: first.key,
+      name: first.name,
+      kind: first.kind,
+      reason: `${oldLeft.size} old and ${newLeft.size} new definitions with differing bodies`,
+      old: [...oldLeft].map(toLocation),
+      new: [...newLeft].map(toLocation),
+    });
+    oldLeft.clear();
+    newLeft.clear();
+  }
+
+  unpaired.removed.push(...oldLeft);
+  unpaired.added.push(...newLeft);
+}
+
+/**
+ * Pairs unpaired callables that kept their local name and callable shape
+ * (form, `static`, decorators, parameters and body) but changed container.
+ * Only unique 1:1 matches are paired.
+ */
+function pairRelocations(
+  unpaired: { removed: DefinitionEntry[]; added: DefinitionEntry[] },
+  result: ComparisonResult
+) {
+  const sameCallable = (a: DefinitionEntry, b: DefinitionEntry) =>
+    a.callableHash === b.callableHash && a.name === b.name;
+
+  for (const oldEntry of [...unpaired.removed]) {
+    if (!oldEntry.callableHash || !unpaired.removed.includes(oldEntry)) continue;
+    const olds = unpaired.removed.filter(e => sameCallable(e, oldEntry));
+    const news = unpaired.added.filter(e => sameCallable(e, oldEntry));
+    if (olds.length !== 1 || news.length !== 1) continue;
+
+    const [newEntry] = news;
+    unpaired.removed.splice(unpaired.removed.indexOf(oldEntry), 1);
+    unpaired.added.splice(unpaired.added.indexOf(newEntry), 1);
+    result.moved.push({
+      key: newEntry.key,
+      name: newEntry.name,
+      kind: newEntry.kind,
+      old: toLocation(oldEntry),
+      new: toLocation(newEntry),
+      oldKey: oldEntry.key,
+      oldName: oldEntry.name,
+    });
+  }
+}
+
+export function compareEntries(
+  oldEntries: DefinitionEntry[],
+  newEntries: DefinitionEntry[],
+  options: CompareOptions = {}
+): ComparisonResult {
+  const result: ComparisonResult = {
+    identical: true,
+    added: [],
+    removed: [],
+    modified: [],
+    moved: [],
+    renamed: [],
+    ambiguous: [],
+    matching: [],
+    statements: options.statements ? compareModuleStatements(options.statements.old, options.statements.new) : [],
+  };
+
+  const oldGroups = groupByKey(oldEntries);
+  const newGroups = groupByKey(newEntries);
+
+  const unpaired = { removed: [] as DefinitionEntry[], added: [] as DefinitionEntry[] };
+
+  for (const [key, oldGroup] of oldGroups) {
+    compareKeyGroup(oldGroup, newGroups.get(key) ?? [], result, unpaired, options);
+  }
+  for (const [key, newGroup] of newGroups) {
+    if (!oldGroups.has(key)) compareKeyGroup([], newGroup, result, unpaired, options);
+  }
+
+  pairRelocations(unpaired, result);
+
+  const renamedOld = new Set<DefinitionEntry>();
+  const renamedNew = new Set<DefinitionEntry>();
+  for (const pair of detectRenames(unpaired.removed, unpaired.added, options.renames)) {
+    renamedOld.add(pair.old);
+    renamedNew.add(pair.new);
+    if (pair.bodyIdentical) {
+      result.renamed.push({
+        key: pair.new.key,
+        name: pair.new.name,
+        kind: pair.new.kind,
+        old: toLocation(pair.old),
+        new: toLocation(pair.new),
+        oldKey: pair.old.key,
+        oldName: pair.old.name,
+        confidence: pair.confidence,
+      });
+    } else {
+      result.modified.push({
+        ...modifiedItem(pair.old, pair.new, `renamed from ${pair.old.name} and body changed`, options),
+        key: pair.new.key,
+        name: pair.new.name,
+      });
+    }
+  }
+
+  for (const entry of unpaired.removed) {
+    if (renamedOld.has(entry)) continue;
+    result.removed.push({ key: entry.key, name: entry.name, kind: entry.kind, old: toLocation(entry) });
+  }
+  for (const entry of unpaired.added) {
+    if (renamedNew.has(entry)) continue;
+    result.added.push({ key: entry.key, name: entry.name, kind: entry.kind, new: toLocation(entry) });
+  }
+
+  // Moves and renames keep the body intact, so they don't break a structural refactor
+  result.identical =
+    result.added.length === 0 &&
+    result.removed.length === 0 &&
+    result.modified.length === 0 &&
+    result.ambiguous.length === 0 &&
+    result.statements.length === 0;
+
+  return result;
+}
@@ -0,0 +1,209 @@
+/**
+ * Project configuration: `.refactor-verifier.json` at the repository root
+ *
+ *   {
+ *     "base": ["origin/develop", "origin/main"],
+ *     "include": ["src/**"],
+ *     "exclude": ["**\/*.d.ts", "**\/generated/**", "vendor/**"],
+ *     "renames": { "loadCfg": "loadConfig" },
+ *     "allow": ["added"],
+ *     "blocking": ["control-flow", "call-target"],
+ *     "overrides": [{ "paths": ["tests/**"], "allow": ["added", "removed", "modified"] }],
+ *     "waivers": "ci/refactor-waivers.json"
+ *   }
+ *
+ * Every field is optional. `base` lists the refs tried in order when no base
+ * is given. Globs and the `waivers` file are relative to the repository
+ * root; overrides apply to the definitions whose file matches one of their
+ * `paths`, the last match winning. Command-line flags take precedence: a flag
+ * replaces the setting, in the overrides too, except `--rename`, which adds
+ * to the config's mappings.
+ */
+
+import { CHANGE_CATEGORIES, DIFFERENCE_KINDS, type ChangeCategory, type CliOptions, type DifferenceKind } from "./cli";
+import { getRepositoryRoot, matchesGlob } from "./git";
+
+export const CONFIG_FILE = ".refactor-verifier.json";
+/** Approved modifications, see waivers.ts */
+export const WAIVERS_FILE = ".refactor-verifier-waivers.json";
+
+/** Changed files skipped when neither the config nor `--exclude` names any */
+export const DEFAULT_EXCLUDE = ["**/*.d.ts"];
+
+/** Policy settings for the definitions in files matching one of `paths` */
+export interface PathOverride {
+  paths: string[];
+  allow?: DifferenceKind[];
+  blocking?: ChangeCategory[];
+}
+
+export interface ProjectConfig {
+  base?: string | string[];
+  include?: string[];
+  exclude?: string[];
+  renames?: Record<string, string>;
+  allow?: DifferenceKind[];
+  blocking?: ChangeCategory[];
+  overrides?: PathOverride[];
+  waivers?: string;
+}
+
+/** What a comparison may contain and still pass */
+export interface VerificationPolicy {
+  /** Differences that pass with a warning */
+  allow: DifferenceKind[];
+  /** Change categories that fail the verdict; every modification fails when omitted */
+  blocking?: ChangeCategory[];
+  overrides: PathOverride[];
+}
+
+export const DEFAULT_POLICY: VerificationPolicy = { allow: [], overrides: [] };
+
+/** Command-line options with the project config merged in */
+export interface VerifierOptions extends CliOptions {
+  /** Refs tried in order when no base is given; the built-in order when omitted */
+  baseCandidates?: string[];
+  policy: VerificationPolicy;
+  /** Config file the settings were read from */
+  configFile?: string;
+  /** Waiver file approved modifications are read from, and written to by `--write-waivers` */
+  waiversFile: string;
+}
+
+const CONFIG_FIELDS = new Set(["base", "include", "exclude", "renames", "allow", "blocking", "overrides", "waivers"]);
+const OVERRIDE_FIELDS = new Set(["paths", "allow", "blocking"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || !value.every(item => typeof item === "string")) {
+    throw new Error(`"${field}" must be a list of strings`);
+  }
+  return value;
+}
+
+function choiceList<T extends string>(value: unknown, field: string, choices: readonly T[]): T[] {
+  const items = stringList(value, field);
+  const unknown = items.filter(item => !(choices as readonly string[]).includes(item));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown "${field}" value "${unknown[0]}", expected one of: ${choices.join(", ")}`);
+  }
+  return items as T[];
+}
+
+function checkFields(value: Record<string, unknown>, allowed: ReadonlySet<string>, where: string) {
+  const unknown = Object.keys(value).find(key => !allowed.has(key));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown field "${unknown}" in ${where}, expected one of: ${[...allowed].join(", ")}`);
+  }
+}
+
+function parseOverride(value: unknown, index: number): PathOverride {
+  const where = `overrides[${index}]`;
+  if (!isRecord(value)) throw new Error(`"${where}" must be an object`);
+  checkFields(value, OVERRIDE_FIELDS, where);
+  const paths = stringList(value.paths, `${where}.paths`);
+  if (paths.length === 0) throw new Error(`"${where}.paths" must name at least one glob`);
+  const override: PathOverride = { paths };
+  if (value.allow !== undefined) override.allow = choiceList(value.allow, `${where}.allow`, DIFFERENCE_KINDS);
+  if (value.blocking !== undefined) override.blocking = choiceList(value.blocking, `${where}.blocking`, CHANGE_CATEGORIES);
+  return override;
+}
+
+function parseConfig(value: unknown): ProjectConfig {
+  if (!isRecord(value)) throw new Error("expected a JSON object");
+  checkFields(value, CONFIG_FIELDS, "the config");
+
+  const config: ProjectConfig = {};
+  if (value.base !== undefined) {
+    config.base = typeof value.base === "string" ? value.base : stringList(value.base, "base");
+  }
+  if (value.include !== undefined) config.include = stringList(value.include, "include");
+  if (value.exclude !== undefined) config.exclude = stringList(value.exclude, "exclude");
+  if (value.renames !== undefined) {
+    const renames = value.renames;
+    if (!isRecord(renames) || !Object.values(renames).every(name => typeof name === "string")) {
+      throw new Error(`"renames" must map old names to new names`);
+    }
+    config.renames = renames as Record<string, string>;
+  }
+  if (value.allow !== undefined) config.allow = choiceList(value.allow, "allow", DIFFERENCE_KINDS);
+  if (value.blocking !== undefined) config.blocking = choiceList(value.blocking, "blocking", CHANGE_CATEGORIES);
+  if (value.overrides !== undefined) {
+    if (!Array.isArray(value.overrides)) throw new Error(`"overrides" must be a list`);
+    config.overrides = value.overrides.map(parseOverride);
+  }
+  if (value.waivers !== undefined) {
+    if (typeof value.waivers !== "string") throw new Error(`"waivers" must be a file path`);
+    config.waivers = value.waivers;
+  }
+  return config;
+}
+
+export async function readProjectConfig(path: string): Promise<ProjectConfig> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`Config file not found: ${path}`);
+  try {
+    return parseConfig(JSON.parse(await file.text()));
+  } catch (err) {
+    throw new Error(`Invalid ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Directory the config and waiver files are looked up in */
+async function projectRoot(): Promise<string> {
+  try {
+    return await getRepositoryRoot();
+  } catch {
+    return process.cwd();
+  }
+}
+
+/** Reads the project config (`--config`, else the repository root's) and merges it under the flags */
+export async function applyProjectConfig(cli: CliOptions): Promise<VerifierOptions> {
+  const root = await projectRoot();
+  const rootConfig = `${root}/${CONFIG_FILE}`;
+  const configFile = cli.config ?? ((await Bun.file(rootConfig).exists()) ? rootConfig : undefined);
+  const config = configFile ? await readProjectConfig(configFile) : {};
+
+  return {
+    ...cli,
+    include: cli.include.length > 0 ? cli.include : config.include ?? [],
+    exclude: cli.exclude.length > 0 ? cli.exclude : config.exclude ?? DEFAULT_EXCLUDE,
+    renames: { ...config.renames, ...cli.renames },
+    baseCandidates: config.base === undefined ? undefined : [config.base].flat(),
+    policy: {
+      allow: cli.allow ?? config.allow ?? [],
+      blocking: cli.blocking ?? config.blocking,
+      overrides: (config.overrides ?? []).map(override => ({
+        paths: override.paths,
+        ...(override.allow && !cli.allow ? { allow: override.allow } : {}),
+        ...(override.blocking && !cli.blocking ? { blocking: override.blocking } : {}),
+      })),
+    },
+    configFile,
+    waiversFile: cli.waivers ?? `${root}/${config.waivers ?? WAIVERS_FILE}`,
+  };
+}
+
+/** Allowed differences and blocking categories for a definition in `file` */
+export function policyFor(policy: VerificationPolicy, file: string): Pick<VerificationPolicy, "allow" | "blocking"> {
+  let { allow, blocking } = policy;
+  for (const override of policy.overrides) {
+    if (!matchesGlob(file, override.paths)) continue;
+    if (override.allow) allow = override.allow;
+    if (override.blocking) blocking = override.blocking;
+  }
+  return { allow, blocking };
+}
+
+/** `allowed: added; blocking: control-flow; 1 path overrides`, for the run header */
+export function describePolicy(policy: VerificationPolicy): string | undefined {
+  const parts: string[] = [];
+  if (policy.allow.length > 0) parts.push(`allowed: ${policy.allow.join(", ")}`);
+  if (policy.blocking) parts.push(`blocking: ${policy.blocking.join(", ")}`);
+  if (policy.overrides.length > 0) parts.push(`${policy.overrides.length} path overrides`);
+  return parts.length > 0 ? parts.join("; ") : undefined;
+}
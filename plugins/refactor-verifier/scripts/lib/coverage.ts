@@ -0,0 +1,205 @@
+/**
+ * Old-file line coverage
+ *
+ * For file splits: maps every line of each old file to what became of it.
+ * Each definition and module statement covers its line range; nested
+ * definitions and members take precedence over their container, so a class
+ * whose header matched can still show a removed method. Lines are:
+ * - accounted: part of a definition that matched, moved or was renamed with
+ *   an identical body, or of a module statement that was kept in order;
+ * - modified:  part of a definition whose body changed or could not be paired
+ *   unambiguously, or of a reordered statement;
+ * - lost:      part of a removed definition or a lost module statement;
+ * - untracked: code outside any definition or module statement.
+ * Blank lines, comment lines and the Python module docstring don't count.
+ */
+
+import { describeItem, formatLocation, type ComparisonResult, type DefinitionEntry, type DefinitionLocation } from "./comparison";
+import type { ModuleStatement } from "./module-statements";
+
+export type CoverageStatus = "accounted" | "modified" | "lost" | "untracked";
+
+export interface CoverageRange {
+  status: CoverageStatus;
+  startLine: number;
+  endLine: number;
+}
+
+export interface CoverageSnippet extends CoverageRange {
+  /** What the lines belonged to, e.g. `removed function: parse` */
+  reason: string;
+  text: string;
+}
+
+export interface FileCoverage {
+  language: "python" | "typescript";
+  file: string;
+  /** Lines that count: not blank, not comments */
+  codeLines: number;
+  accountedLines: number;
+  percent: number;
+  /** Consecutive lines sharing a status, in file order */
+  ranges: CoverageRange[];
+  /** Ranges that are not accounted for, with their source */
+  snippets: CoverageSnippet[];
+}
+
+/** A line range of an old file and what became of it */
+interface CoverageSpan {
+  file: string;
+  startLine: number;
+  endLine: number;
+  status: CoverageStatus;
+  reason: string;
+}
+
+const COMMENT_PREFIXES: Record<FileCoverage["language"], string[]> = {
+  python: ["#"],
+  typescript: ["//", "/*", "*"],
+};
+
+const SEVERITY: Record<CoverageStatus, number> = { accounted: 0, modified: 1, lost: 2, untracked: 3 };
+
+/**
+ * Status of each old definition by location, from the comparison categories.
+ * Definitions sharing a line (`a = b = 0`) take the worst status among them.
+ */
+function definitionStatuses(comparison: ComparisonResult): Map<string, { status: CoverageStatus; reason: string }> {
+  const statuses = new Map<string, { status: CoverageStatus; reason: string }>();
+  const mark = (location: DefinitionLocation | undefined, status: CoverageStatus, reason: string) => {
+    if (!location) return;
+    const known = statuses.get(formatLocation(location));
+    if (!known || SEVERITY[status] > SEVERITY[known.status]) statuses.set(formatLocation(location), { status, reason });
+  };
+  for (const item of [...comparison.matching, ...comparison.moved, ...comparison.renamed]) mark(item.old, "accounted", "");
+  for (const item of comparison.modified) mark(item.old, "modified", `modified ${describeItem(item)}`);
+  for (const item of comparison.removed) mark(item.old, "lost", `removed ${describeItem(item)}`);
+  for (const item of comparison.ambiguous) {
+    for (const location of item.old) mark(location, "modified", `ambiguous ${describeItem(item)}`);
+  }
+  return statuses;
+}
+
+function coverageSpans(
+  comparison: ComparisonResult,
+  entries: DefinitionEntry[],
+  statements: ModuleStatement[]
+): CoverageSpan[] {
+  const statuses = definitionStatuses(comparison);
+  const spans: CoverageSpan[] = [];
+  for (const entry of entries) {
+    const [startLine, endLine] = entry.lines ?? [entry.lineno, entry.lineno];
+    const known = statuses.get(formatLocation(entry));
+    if (known) spans.push({ file: entry.file, startLine, endLine, ...known });
+  }
+
+  const changed = new Map(
+    comparison.statements
+      .filter(item => item.change === "lost" || item.change === "reordered")
+      .flatMap(item => (item.old ? [[formatLocation(item.old), item] as const] : []))
+  );
+  for (const statement of statements) {
+    const item = changed.get(formatLocation(statement));
+    const status: CoverageStatus = !item ? "accounted" : item.change === "lost" ? "lost" : "modified";
+    spans.push({
+      file: statement.file,
+      startLine: statement.lines[0],
+      endLine: statement.lines[1],
+      status,
+      reason: item ? `${item.change} ${item.kind}` : "",
+    });
+  }
+  return spans;
+}
+
+function fileCoverage(
+  language: FileCoverage["language"],
+  file: string,
+  source: string,
+  spans: CoverageSpan[],
+  ignored: Array<[number, number]>
+): FileCoverage {
+  const lines = source.split("\n");
+  const prefixes = COMMENT_PREFIXES[language];
+  const counts = lines.map((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0 || prefixes.some(prefix => trimmed.startsWith(prefix))) return false;
+    return !ignored.some(([start, end]) => i + 1 >= start && i + 1 <= end);
+  });
+
+  // Widest spans first, so nested definitions paint over their containers
+  const owners: Array<CoverageSpan | undefined> = lines.map(() => undefined);
+  const ordered = [...spans].sort((a, b) => b.endLine - b.startLine - (a.endLine - a.startLine));
+  for (const span of ordered) {
+    for (let line = span.startLine; line <= Math.min(span.endLine, lines.length); line++) owners[line - 1] = span;
+  }
+
+  const ranges: CoverageRange[] = [];
+  const snippets: CoverageSnippet[] = [];
+  let previous: { status: CoverageStatus; reason: string } | undefined;
+  lines.forEach((_, i) => {
+    if (!counts[i]) return;
+    const owner = owners[i];
+    const status = owner?.status ?? "untracked";
+    const reason = owner ? owner.reason : "not part of any definition or module statement";
+    const last = ranges[ranges.length - 1];
+    // Blank and comment lines in between don't break a range
+    if (last && previous && previous.status === status && previous.reason === reason) {
+      last.endLine = i + 1;
+      const snippet = snippets[snippets.length - 1];
+      if (status !== "accounted" && snippet) {
+        snippet.endLine = i + 1;
+        snippet.text = lines.slice(snippet.startLine - 1, i + 1).join("\n");
+      }
+    } else {
+      ranges.push({ status, startLine: i + 1, endLine: i + 1 });
+      if (status !== "accounted") snippets.push({ status, startLine: i + 1, endLine: i + 1, reason, text: lines[i] });
+    }
+    previous = { status, reason };
+  });
+
+  const codeLines = counts.filter(Boolean).length;
+  const accountedLines = ranges
+    .filter(range => range.status === "accounted")
+    .reduce((total, range) => total + counts.slice(range.startLine - 1, range.endLine).filter(Boolean).length, 0);
+  return {
+    language,
+    file,
+    codeLines,
+    accountedLines,
+    percent: codeLines === 0 ? 100 : Math.round((accountedLines / codeLines) * 1000) / 10,
+    ranges,
+    snippets,
+  };
+}
+
+export interface CoverageInput {
+  language: FileCoverage["language"];
+  comparison: ComparisonResult;
+  /** Old definitions and module statements */
+  entries: DefinitionEntry[];
+  statements: ModuleStatement[];
+  /** Old file contents by path */
+  sources: Map<string, string>;
+  /** Line ranges that don't count, by file (Python module docstrings) */
+  ignored?: Map<string, Array<[number, number]>>;
+}
+
+/** `line 4` or `lines 4-9` */
+export function describeLineRange(range: CoverageRange): string {
+  return range.startLine === range.endLine ? `line ${range.startLine}` : `lines ${range.startLine}-${range.endLine}`;
+}
+
+/** Coverage of every old file, in path order */
+export function computeCoverage(input: CoverageInput): FileCoverage[] {
+  const spans = coverageSpans(input.comparison, input.entries, input.statements);
+  return [...input.sources.keys()].sort().map(file =>
+    fileCoverage(
+      input.language,
+      file,
+      input.sources.get(file) ?? "",
+      spans.filter(span => span.file === file),
+      input.ignored?.get(file) ?? []
+    )
+  );
+}
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { formatLineDiff, myersDiff, wordDiff } from "./diff";
+
+/** Both sides rebuilt from an edit script */
+function sides<T>(edits: Array<{ op: string; value: T }>): [T[], T[]] {
+  return [
+    edits.filter(edit => edit.op !== "insert").map(edit => edit.value),
+    edits.filter(edit => edit.op !== "delete").map(edit => edit.value),
+  ];
+}
+
+/** Length of the longest common subsequence, by dynamic programming */
+function lcsLength<T>(a: T[], b: T[]): number {
+  const rows = a.map(() => new Array<number>(b.length + 1).fill(0));
+  rows.push(new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      rows[i][j] = a[i] === b[j] ? rows[i + 1][j + 1] + 1 : Math.max(rows[i + 1][j], rows[i][j + 1]);
+    }
+  }
+  return rows[0][0];
+}
+
+describe("myersDiff", () => {
+  test("handles empty and identical inputs", () => {
+    expect(myersDiff([], [])).toEqual([]);
+    expect(myersDiff([], ["a"])).toEqual([{ op: "insert", value: "a" }]);
+    expect(myersDiff(["a"], [])).toEqual([{ op: "delete", value: "a" }]);
+    expect(myersDiff(["a", "b"], ["a", "b"]).every(edit => edit.op === "equal")).toBe(true);
+  });
+
+  test("finds the classic ABCABBA → CBABAC script of five edits", () => {
+    const edits = myersDiff([..."ABCABBA"], [..."CBABAC"]);
+    expect(sides(edits)).toEqual([[..."ABCABBA"], [..."CBABAC"]]);
+    expect(edits.filter(edit => edit.op !== "equal")).toHaveLength(5);
+  });
+
+  test("produces a shortest edit script for arbitrary inputs", () => {
+    let seed = 7;
+    const next = () => (seed = (seed * 48271) % 2147483647) % 4;
+    for (let run = 0; run < 200; run++) {
+      const a = Array.from({ length: next() * 3 }, next);
+      const b = Array.from({ length: next() * 3 }, next);
+      const edits = myersDiff(a, b);
+      expect(sides(edits)).toEqual([a, b]);
+      expect(edits.filter(edit => edit.op === "equal")).toHaveLength(lcsLength(a, b));
+    }
+  });
+});
+
+describe("formatLineDiff", () => {
+  test("shows a change far into the code in a hunk with its context", () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = oldLines.map(line => (line === "line 15" ? "line fifteen" : line));
+    expect(formatLineDiff(oldLines.join("\n"), newLines.join("\n"), { context: 1 })).toBe(
+      ["  @@ -14,3 +14,3 @@", "    line 14", "  - line 15", "  + line fifteen", "    line 16"].join("\n")
+    );
+  });
+
+  test("reports identical code", () => {
+    expect(formatLineDiff("a\nb", "a\nb")).toBe("(identical)");
+  });
+});
+
+describe("wordDiff", () => {
+  test("marks the changed words", () => {
+    expect(wordDiff("return a + b;", "return a - b;")).toBe("return a [-+-]{+-+} b;");
+  });
+});
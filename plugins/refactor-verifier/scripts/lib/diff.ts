@@ -0,0 +1,232 @@
+/**
+ * Text diff helpers shared by the detailed script and the reporters.
+ *
+ * Lines are aligned with Myers' O(ND) algorithm, so every change is shown
+ * however far into the definition it is, and grouped into hunks with a
+ * configurable amount of context. Long replaced lines can be diffed word by
+ * word, and the change sites of a syntax-tree diff can be listed with the
+ * exact expressions that differ.
+ */
+
+import type { ChangeSite, SyntaxTree } from "./change-categories";
+
+export interface DiffOptions {
+  /** Unchanged lines shown around each change (default 3) */
+  context?: number;
+  /** Truncate displayed lines to this many characters; lines are shown in full when unset */
+  maxWidth?: number;
+  /** Show replaced lines longer than WORD_DIFF_MIN_LENGTH as one line with `[-removed-]{+added+}` words */
+  words?: boolean;
+}
+
+/** Shorter replaced lines stay readable as a `-`/`+` pair */
+const WORD_DIFF_MIN_LENGTH = 80;
+
+type EditOp = "equal" | "delete" | "insert";
+
+interface Edit<T> {
+  op: EditOp;
+  value: T;
+}
+
+/** Shortest edit script turning `a` into `b`, by Myers' greedy algorithm */
+export function myersDiff<T>(a: T[], b: T[]): Array<Edit<T>> {
+  // Common prefix and suffix need no search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+
+  return [
+    ...a.slice(0, prefix).map(value => ({ op: "equal" as const, value })),
+    ...middleDiff(oldMiddle, newMiddle),
+    ...a.slice(a.length - suffix).map(value => ({ op: "equal" as const, value })),
+  ];
+}
+
+function middleDiff<T>(a: T[], b: T[]): Array<Edit<T>> {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const frontier = new Array<number>(2 * max + 3).fill(0);
+  // Furthest-reaching x per diagonal before each round, to walk the path back
+  const trace: number[][] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push([...frontier]);
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1]);
+      let x = down ? frontier[offset + k + 1] : frontier[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      frontier[offset + k] = x;
+      if (x >= a.length && y >= b.length) break search;
+    }
+  }
+
+  const edits: Array<Edit<T>> = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const down = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]);
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = previous[offset + previousK];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      edits.push({ op: "equal", value: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (down) edits.push({ op: "insert", value: b[--y] });
+    else edits.push({ op: "delete", value: a[--x] });
+  }
+  return edits.reverse();
+}
+
+function truncate(line: string, maxWidth: number | undefined): string {
+  return maxWidth !== undefined && line.length > maxWidth ? `${line.slice(0, maxWidth)}…` : line;
+}
+
+/** `old line` and `new line` merged, with changed words marked `[-old-]{+new+}` */
+export function wordDiff(oldLine: string, newLine: string): string {
+  const words = (line: string) => line.match(/\w+|\s+|[^\w\s]+/g) ?? [];
+  let result = "";
+  let removed = "";
+  let added = "";
+  const flush = () => {
+    if (removed) result += `[-${removed}-]`;
+    if (added) result += `{+${added}+}`;
+    removed = "";
+    added = "";
+  };
+  for (const edit of myersDiff(words(oldLine), words(newLine))) {
+    if (edit.op === "delete") removed += edit.value;
+    else if (edit.op === "insert") added += edit.value;
+    else {
+      flush();
+      result += edit.value;
+    }
+  }
+  flush();
+  return result;
+}
+
+interface Hunk {
+  oldStart: number;
+  newStart: number;
+  edits: Array<Edit<string>>;
+}
+
+/** Groups edits into hunks of changes with up to `context` unchanged lines around them */
+function hunks(edits: Array<Edit<string>>, context: number): Hunk[] {
+  const changed = edits.flatMap((edit, i) => (edit.op === "equal" ? [] : [i]));
+  const result: Hunk[] = [];
+  let i = 0;
+  while (i < changed.length) {
+    const start = Math.max(0, changed[i] - context);
+    let end = changed[i];
+    // Merge changes whose contexts touch
+    while (i + 1 < changed.length && changed[i + 1] - end <= 2 * context + 1) end = changed[++i];
+    i++;
+    const before = edits.slice(0, start);
+    result.push({
+      oldStart: before.filter(edit => edit.op !== "insert").length + 1,
+      newStart: before.filter(edit => edit.op !== "delete").length + 1,
+      edits: edits.slice(start, Math.min(edits.length, end + context + 1)),
+    });
+  }
+  return result;
+}
+
+function formatHunk(hunk: Hunk, options: DiffOptions): string[] {
+  const oldCount = hunk.edits.filter(edit => edit.op !== "insert").length;
+  const newCount = hunk.edits.filter(edit => edit.op !== "delete").length;
+  const lines = [`  @@ -${hunk.oldStart},${oldCount} +${hunk.newStart},${newCount} @@`];
+  const show = (marker: string, text: string) => lines.push(`  ${marker} ${truncate(text, options.maxWidth)}`);
+
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    if (options.words) {
+      // Pair replaced lines in order; long pairs become one word-diffed line
+      const paired = Math.min(removed.length, added.length);
+      for (let i = 0; i < paired; i++) {
+        if (Math.max(removed[i].length, added[i].length) > WORD_DIFF_MIN_LENGTH) {
+          show("~", wordDiff(removed[i], added[i]));
+        } else {
+          show("-", removed[i]);
+          show("+", added[i]);
+        }
+      }
+      removed.slice(paired).forEach(line => show("-", line));
+      added.slice(paired).forEach(line => show("+", line));
+    } else {
+      removed.forEach(line => show("-", line));
+      added.forEach(line => show("+", line));
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const edit of hunk.edits) {
+    if (edit.op === "delete") removed.push(edit.value);
+    else if (edit.op === "insert") added.push(edit.value);
+    else {
+      flush();
+      show(" ", edit.value);
+    }
+  }
+  flush();
+  return lines;
+}
+
+/**
+ * Unified line diff, indented by two spaces: `@@` hunk headers, then
+ * `-`, `+`, `~` (word diff) and unchanged context lines.
+ */
+export function formatLineDiff(oldCode: string, newCode: string, options: DiffOptions = {}): string {
+  const edits = myersDiff(oldCode.split("\n"), newCode.split("\n"));
+  if (edits.every(edit => edit.op === "equal")) return "(identical)";
+  return hunks(edits, options.context ?? 3)
+    .flatMap(hunk => formatHunk(hunk, options))
+    .join("\n");
+}
+
+function lineAt(code: string, offset: number): number {
+  return code.slice(0, offset).split("\n").length;
+}
+
+function sourceOf(code: string, tree: SyntaxTree | undefined, options: DiffOptions): string {
+  if (!tree?.span) return "?";
+  return truncate(code.slice(...tree.span).replace(/\s+/g, " ").trim(), options.maxWidth);
+}
+
+/**
+ * One line per change site: `~ literal at line 2: "a" → "b"` for replaced
+ * nodes, `+`/`-` for subtrees added or removed. Line numbers are those of
+ * the new code, or of the old code for removals.
+ */
+export function formatChangeSites(sites: ChangeSite[], oldCode: string, newCode: string, options: DiffOptions = {}): string {
+  return sites
+    .map(site => {
+      const where = site.new?.span ? lineAt(newCode, site.new.span[0]) : site.old?.span ? lineAt(oldCode, site.old.span[0]) : "?";
+      if (site.old && site.new) {
+        return `  ~ ${site.category} at line ${where}: ${sourceOf(oldCode, site.old, options)} → ${sourceOf(newCode, site.new, options)}`;
+      }
+      if (site.new) return `  + ${site.category} at line ${where}: ${sourceOf(newCode, site.new, options)}`;
+      return `  - ${site.category} at line ${where}: ${sourceOf(oldCode, site.old, options)}`;
+    })
+    .join("\n");
+}
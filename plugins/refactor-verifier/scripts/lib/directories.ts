@@ -0,0 +1,87 @@
+/**
+ * Git-free comparison of files on disk (`--old-root`/`--new-root`,
+ * `--old-files`/`--new-files`)
+ *
+ * Each side is a root directory, the current one unless given, holding
+ * either the listed files or every file under it; dot directories and
+ * `node_modules` are skipped. Files present on one side only, or whose
+ * content differs, count as changed, as `git diff` would report them. Paths
+ * are relative to each side's root, so `a/x.py` on both sides is the same file.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { CliOptions } from "./cli";
+import type { RefRange, TreeSide } from "./git";
+
+/** Root directory a side is read from */
+export function sideRoot(range: RefRange, side: TreeSide): string {
+  return (side === "old" ? range.base : range.head) ?? ".";
+}
+
+function isDirectory(path: string): boolean {
+  return existsSync(path) && statSync(path).isDirectory();
+}
+
+async function listDirectory(root: string, directory = ""): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(join(root, directory), { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+    const path = directory ? `${directory}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) files.push(...(await listDirectory(root, path)));
+    else if (entry.isFile()) files.push(path);
+  }
+  return files;
+}
+
+async function sideFiles(root: string, listed: string[]): Promise<Set<string>> {
+  if (!isDirectory(root)) throw new Error(`Not a directory: ${root}`);
+  if (listed.length === 0) return new Set((await listDirectory(root)).sort());
+  const missing = listed.find(file => !existsSync(join(root, file)));
+  if (missing !== undefined) throw new Error(`File not found: ${join(root, missing)}`);
+  return new Set(listed);
+}
+
+export async function resolveDirectoryRange(options: CliOptions): Promise<RefRange> {
+  const base = options.oldRoot ?? ".";
+  const head = options.newRoot ?? ".";
+  return {
+    base,
+    head,
+    mode: "directories",
+    directoryFiles: {
+      old: await sideFiles(base, options.oldFiles),
+      new: await sideFiles(head, options.newFiles),
+    },
+  };
+}
+
+/** A file's content on one side; undefined when the side doesn't hold it */
+export function readSideFile(range: RefRange, side: TreeSide, file: string): string | undefined {
+  if (!range.directoryFiles?.[side].has(file)) return undefined;
+  try {
+    return readFileSync(join(sideRoot(range, side), file), "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export function listSideFiles(range: RefRange, side: TreeSide): string[] {
+  return [...(range.directoryFiles?.[side] ?? [])];
+}
+
+/** Files on one side only, or whose content differs between the sides */
+export function listChangedDirectoryFiles(range: RefRange): string[] {
+  const files = new Set([...listSideFiles(range, "old"), ...listSideFiles(range, "new")]);
+  return [...files].filter(file => readSideFile(range, "old", file) !== readSideFile(range, "new", file)).sort();
+}
+
+/** Files on one side containing any of the words as a whole word, limited to the given extensions */
+export function grepSide(range: RefRange, side: TreeSide, words: string[], extensions: string[]): string[] {
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(?<!\\w)(?:${escaped.join("|")})(?!\\w)`);
+  return listSideFiles(range, side).filter(
+    file => extensions.some(ext => file.endsWith(ext)) && pattern.test(readSideFile(range, side, file) ?? "")
+  );
+}
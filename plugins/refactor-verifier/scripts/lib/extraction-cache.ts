@@ -0,0 +1,102 @@
+/**
+ * Content-addressed cache of extraction results
+ *
+ * Each file's extracted definitions are stored as JSON under
+ * `<dir>/<ab>/<key>.json`. The key combines the file's git blob hash, its
+ * path (extracted definitions record it) and the extractor version, which
+ * covers the extractor's code, its options and the parser version, so an
+ * edited extractor never reads results of the previous one. Re-runs after a
+ * small fix only extract the files that changed since.
+ */
+
+import { mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export interface SourceFile {
+  file: string;
+  content: string;
+}
+
+export interface ExtractionCache {
+  /** Directory results are stored in; null when caching is disabled */
+  dir: string | null;
+  hits: number;
+  misses: number;
+}
+
+/** `$XDG_CACHE_HOME/refactor-verifier`, else `~/.cache/refactor-verifier` */
+export function defaultCacheDir(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "refactor-verifier");
+}
+
+export function openExtractionCache(dir: string | null): ExtractionCache {
+  return { dir, hits: 0, misses: 0 };
+}
+
+/** The id git gives the content as a blob, as `git hash-object` computes it */
+export function blobHash(content: string): string {
+  const bytes = Buffer.from(content, "utf8");
+  return new Bun.CryptoHasher("sha1").update(`blob ${bytes.length}\0`).update(bytes).digest("hex");
+}
+
+/** Version string from the extractor's own source and whatever else shapes its output */
+export function extractorVersion(...parts: string[]): string {
+  return new Bun.CryptoHasher("sha256").update(parts.join("\0")).digest("hex").substring(0, 16);
+}
+
+function entryPath(dir: string, version: string, source: SourceFile): string {
+  const key = new Bun.CryptoHasher("sha256")
+    .update(`${version}\0${source.file}\0${blobHash(source.content)}`)
+    .digest("hex");
+  return join(dir, key.substring(0, 2), `${key}.json`);
+}
+
+async function readEntry<T>(path: string): Promise<T | undefined> {
+  try {
+    return (await Bun.file(path).json()) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeEntry(path: string, value: unknown): Promise<void> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await Bun.write(path, JSON.stringify(value));
+  } catch {
+    // A read-only or full cache directory only costs the speed-up
+  }
+}
+
+/**
+ * Extraction results of every source, in order. Cached results are read
+ * back; the others are extracted in one call, and stored when `cacheable`
+ * accepts them (failures that depend on the environment shouldn't stick).
+ */
+export async function extractCached<T>(
+  cache: ExtractionCache,
+  version: string,
+  sources: SourceFile[],
+  extract: (sources: SourceFile[]) => Promise<T[]>,
+  cacheable: (result: T) => boolean = () => true
+): Promise<T[]> {
+  const { dir } = cache;
+  if (dir === null) return extract(sources);
+
+  const paths = sources.map(source => entryPath(dir, version, source));
+  const results: Array<T | undefined> = [];
+  for (const path of paths) results.push(await readEntry<T>(path));
+  const missing = sources.flatMap((_, i) => (results[i] === undefined ? [i] : []));
+  cache.hits += sources.length - missing.length;
+  cache.misses += missing.length;
+
+  if (missing.length > 0) {
+    const extracted = await extract(missing.map(i => sources[i]));
+    for (const [i, index] of missing.entries()) {
+      results[index] = extracted[i];
+      if (cacheable(extracted[i])) await writeEntry(paths[index], extracted[i]);
+    }
+  }
+  return results as T[];
+}
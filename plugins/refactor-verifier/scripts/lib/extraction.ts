@@ -0,0 +1,202 @@
+/**
+ * Extraction of both sides' definitions, shared by the two scripts
+ *
+ * Sources are read in one pass per side, cached results are reused (see
+ * extraction-cache), and the rest are extracted in parallel: Python in up to
+ * `--jobs` batches of one python3 process each, TypeScript across workers.
+ * Files that fail to extract are reported as extraction errors, which fail
+ * the verdict: their definitions would otherwise be neither compared nor
+ * reported as removed. Both scripts pair the collected entries with
+ * compareEntries.
+ */
+
+import type { DefinitionEntry } from "./comparison";
+import type { VerifierOptions } from "./config";
+import {
+  defaultCacheDir,
+  extractCached,
+  extractorVersion,
+  openExtractionCache,
+  type ExtractionCache,
+  type SourceFile,
+} from "./extraction-cache";
+import { getSideFileContents, type RefRange, type TreeSide } from "./git";
+import {
+  extractPythonDefinitions,
+  pythonExtractorSource,
+  type AssignmentDef,
+  type PythonDefinitions,
+} from "./python-extract";
+import type { ExtractOptions, TSDefinitions } from "./typescript-extract";
+import { extractTSDefinitionsParallel, typescriptExtractorSource } from "./typescript-workers";
+
+/** Extraction settings shared by every batch of a run */
+export interface ExtractionContext {
+  cache: ExtractionCache;
+  jobs: number;
+  options: ExtractOptions;
+  /** Cache versions of each extractor, computed on first use */
+  versions: { python?: string; typescript?: string };
+}
+
+/** A changed file whose definitions could not be extracted */
+export interface ExtractionError {
+  language: "python" | "typescript";
+  side: TreeSide;
+  file: string;
+  message: string;
+}
+
+export function createExtractionContext(options: VerifierOptions): ExtractionContext {
+  return {
+    cache: openExtractionCache(options.cache ? defaultCacheDir() : null),
+    jobs: options.jobs,
+    options: { scope: options.scope, alpha: options.alpha },
+    versions: {},
+  };
+}
+
+/** Definitions of each Python file, in order: cached, or extracted by up to `jobs` python3 processes */
+export async function extractPythonFiles(sources: SourceFile[], context: ExtractionContext): Promise<PythonDefinitions[]> {
+  context.versions.python ??= extractorVersion(...pythonExtractorSource());
+  const extract = async (missing: SourceFile[]) => {
+    const size = Math.ceil(missing.length / context.jobs);
+    const batches = Array.from({ length: Math.ceil(missing.length / size) }, (_, i) => missing.slice(i * size, (i + 1) * size));
+    return (await Promise.all(batches.map(extractPythonDefinitions))).flat();
+  };
+  // A failed process says nothing about the file, so errors are never cached
+  return extractCached(context.cache, context.versions.python, sources, extract, defs => !defs.error);
+}
+
+/** Definitions of each TypeScript file, in order: cached, or extracted by up to `jobs` workers */
+export async function extractTSFiles(sources: SourceFile[], context: ExtractionContext): Promise<TSDefinitions[]> {
+  const { scope, alpha } = context.options;
+  context.versions.typescript ??= extractorVersion(...(await typescriptExtractorSource()), scope, String(alpha ?? false));
+  return extractCached(context.cache, context.versions.typescript, sources, missing =>
+    extractTSDefinitionsParallel(missing, context.options, context.jobs)
+  );
+}
+
+/** The files that exist on one side, with their content */
+export async function readSources(range: RefRange, side: TreeSide, files: string[]): Promise<SourceFile[]> {
+  const contents = await getSideFileContents(range, side, files);
+  return files.flatMap(file => {
+    const content = contents.get(file);
+    return content ? [{ file, content }] : [];
+  });
+}
+
+/** The sources of one side whose extraction result carries an error */
+export function extractionErrors(
+  language: ExtractionError["language"],
+  side: TreeSide,
+  sources: SourceFile[],
+  results: Array<{ error?: string }>
+): ExtractionError[] {
+  return results.flatMap((defs, i) => (defs.error ? [{ language, side, file: sources[i].file, message: defs.error }] : []));
+}
+
+/** Comparison entries of the definitions of TypeScript files */
+export function collectTSEntries(allDefs: TSDefinitions[]): DefinitionEntry[] {
+  const entries: DefinitionEntry[] = [];
+  for (const defs of allDefs) {
+    for (const [key, def] of Object.entries(defs.items)) {
+      entries.push({
+        key,
+        name: def.name,
+        kind: def.kind,
+        file: def.file,
+        lineno: def.lineno,
+        lines: def.lines,
+        hash: def.body_hash,
+        body: def.body,
+        anonymized: def.anonymized,
+        container: def.container,
+        containerKind: def.container_kind,
+        callableHash: def.callable_hash,
+        alphaHash: def.alpha_hash,
+        localNames: def.local_names,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Key, local name and container of a Python definition. The extractor names
+ * members `Outer.Inner.method`; keys use the same containment paths as
+ * TypeScript (`class:Outer>class:Inner>method:method`).
+ */
+function pythonIdentity(kind: string, qualifiedName: string, container: string | null) {
+  if (!container) return { key: `${kind}:${qualifiedName}`, name: qualifiedName };
+  const containerKey = container
+    .split(".")
+    .map(segment => `class:${segment}`)
+    .join(">");
+  const name = qualifiedName.slice(container.length + 1);
+  return { key: `${containerKey}>${kind}:${name}`, name, container: containerKey, containerKind: "class" as const };
+}
+
+/** Comparison entries of the definitions of Python files */
+export function collectPythonEntries(allDefs: PythonDefinitions[]): DefinitionEntry[] {
+  const entries: DefinitionEntry[] = [];
+  for (const defs of allDefs) {
+    for (const [name, func] of Object.entries(defs.functions)) {
+      const kind = func.container ? "method" : "function";
+      entries.push({
+        ...pythonIdentity(kind, name, func.container),
+        kind,
+        file: func.file,
+        lineno: func.lineno,
+        lines: func.lines,
+        hash: func.body_hash,
+        body: func.body,
+        anonymized: func.anonymized,
+        strippedHash: func.stripped_hash,
+        signatureHash: func.signature_hash,
+        callableHash: func.callable_hash,
+        alphaHash: func.alpha_hash,
+        localNames: func.local_names,
+      });
+    }
+    for (const [name, cls] of Object.entries(defs.classes)) {
+      entries.push({
+        ...pythonIdentity("class", name, cls.container),
+        kind: "class",
+        file: cls.file,
+        lineno: cls.lineno,
+        lines: cls.lines,
+        hash: cls.body_hash,
+        body: cls.body,
+        anonymized: cls.anonymized,
+        strippedHash: cls.stripped_hash,
+        signatureHash: cls.signature_hash,
+      });
+    }
+    const assignmentKinds: Array<["assignment" | "type", Record<string, AssignmentDef>]> = [
+      ["assignment", defs.assignments],
+      ["type", defs.type_aliases],
+    ];
+    for (const [kind, assignments] of assignmentKinds) {
+      for (const [name, assignment] of Object.entries(assignments)) {
+        entries.push({
+          ...pythonIdentity(kind, name, assignment.container),
+          kind,
+          file: assignment.file,
+          lineno: assignment.lineno,
+          lines: assignment.lines,
+          hash: assignment.body_hash,
+          body: assignment.body,
+          anonymized: assignment.anonymized,
+          strippedHash: assignment.stripped_hash,
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+/** `new src/a.py: Syntax error in src/a.py: ...` */
+export function describeExtractionError(error: ExtractionError): string {
+  return `${error.side} ${error.file}: ${error.message.trim()}`;
+}
@@ -0,0 +1,68 @@
+import { $ } from "bun";
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openTreeSnapshot, parseCatFileBatch } from "./git";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("parseCatFileBatch", () => {
+  test("splits blobs by their declared size, including newlines in content", () => {
+    const output = encode("aaa blob 6\none\ntw\nbbb blob 4\nthr\n\n");
+    expect(parseCatFileBatch(output, ["a.py", "b.py"])).toEqual(
+      new Map([
+        ["a.py", "one\ntw"],
+        ["b.py", "thr\n"],
+      ])
+    );
+  });
+
+  test("maps missing files to empty content", () => {
+    const output = encode("HEAD:gone.py missing\nbbb blob 3\nabc\n");
+    expect(parseCatFileBatch(output, ["gone.py", "b.py"])).toEqual(
+      new Map([
+        ["gone.py", ""],
+        ["b.py", "abc"],
+      ])
+    );
+  });
+
+  test("skips over the content of trees and other non-blob objects", () => {
+    const output = encode("ttt tree 9\n100644 x\n\nccc commit 5\nabcde\nbbb blob 3\nabc\n");
+    expect(parseCatFileBatch(output, ["dir", "sub", "b.py"])).toEqual(
+      new Map([
+        ["dir", ""],
+        ["sub", ""],
+        ["b.py", "abc"],
+      ])
+    );
+  });
+
+  test("counts sizes in bytes, not characters", () => {
+    const output = encode("aaa blob 3\né!\nbbb blob 1\nx\n");
+    expect(parseCatFileBatch(output, ["a.py", "b.py"]).get("b.py")).toBe("x");
+  });
+});
+
+describe("openTreeSnapshot", () => {
+  test("lists working-tree files relative to the repository root from a subdirectory", async () => {
+    const root = await mkdtemp(join(tmpdir(), "refactor-verifier-"));
+    const cwd = process.cwd();
+    try {
+      await mkdir(join(root, "src"));
+      await writeFile(join(root, "top.py"), "a = 1\n");
+      await writeFile(join(root, "src", "app.py"), "b = 2\n");
+      await $`git init -q && git add -A && git -c user.name=t -c user.email=t@t commit -qm init`.cwd(root).quiet();
+      await writeFile(join(root, "src", "new.py"), "c = 3\n");
+      process.chdir(join(root, "src"));
+
+      const snapshot = await openTreeSnapshot({ base: "HEAD", mode: "worktree" }, "new");
+      expect([...snapshot.files].sort()).toEqual(["src/app.py", "src/new.py", "top.py"]);
+      expect(snapshot.read("src/new.py")).toBe("c = 3\n");
+    } finally {
+      process.chdir(cwd);
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Git helpers shared by the verification scripts: ref resolution,
+ * changed-file detection and reading file contents at either side.
+ * In directories mode each side is read from disk by directories.ts instead.
+ */
+
+import { $ } from "bun";
+import { readFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ChangeMode } from "./cli";
+import type { VerifierOptions } from "./config";
+import {
+  grepSide,
+  listChangedDirectoryFiles,
+  listSideFiles,
+  readSideFile,
+  resolveDirectoryRange,
+  sideRoot,
+} from "./directories";
+
+export interface RefRange {
+  /** Ref the old code is read from; the old root directory in directories mode */
+  base: string;
+  /** Ref the new code is read from, set when mode is "committed"; the new root directory in directories mode */
+  head?: string;
+  mode: ChangeMode;
+  /** Directories mode: the files of each side, relative to its root */
+  directoryFiles?: Record<TreeSide, ReadonlySet<string>>;
+}
+
+export interface FileScope {
+  paths: string[];
+  files: string[];
+  /** Globs a file must match one of; every file when empty */
+  include: string[];
+  exclude: string[];
+}
+
+/** Base refs tried in order when neither the command line nor the config names one */
+export const DEFAULT_BASE_CANDIDATES = ["origin/staging", "origin/main"];
+
+async function getBaseBranch(head: string, candidates: string[]): Promise<string> {
+  // The first candidate sharing history with head, else the previous commit
+  for (const candidate of candidates) {
+    const mergeBase = await $`git merge-base ${candidate} ${head} 2>/dev/null`.text().catch(() => "");
+    if (mergeBase.trim()) return candidate;
+  }
+
+  return `${head}~1`;
+}
+
+async function assertRef(ref: string): Promise<void> {
+  const commit = `${ref}^{commit}`;
+  const resolved = await $`git rev-parse --verify --quiet ${commit}`.quiet().nothrow();
+  if (resolved.exitCode !== 0) {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+}
+
+export async function resolveRefRange(options: VerifierOptions): Promise<RefRange> {
+  if (options.mode === "directories") return resolveDirectoryRange(options);
+  const mode = options.mode;
+  const head = options.head ?? (mode === "committed" ? "HEAD" : undefined);
+  if (head) await assertRef(head);
+
+  let base = options.base ?? (await getBaseBranch(head ?? "HEAD", options.baseCandidates ?? DEFAULT_BASE_CANDIDATES));
+  await assertRef(base);
+
+  if (options.mergeBase) {
+    base = (await $`git merge-base ${base} ${head ?? "HEAD"}`.text()).trim();
+  }
+
+  return { base, head, mode };
+}
+
+export function describeHead(range: RefRange): string {
+  switch (range.mode) {
+    case "worktree":
+      return "working tree";
+    case "staged":
+      return "index";
+    case "committed":
+      return range.head ?? "HEAD";
+    case "directories":
+      return range.head ?? ".";
+  }
+}
+
+export function describeChangeMode(mode: ChangeMode): string {
+  switch (mode) {
+    case "worktree":
+      return "worktree (tracked and untracked files, respecting .gitignore)";
+    case "staged":
+      return "staged (index only, unstaged edits ignored)";
+    case "committed":
+      return "committed (head ref only, uncommitted changes ignored)";
+    case "directories":
+      return "directories (files on disk, no git history)";
+  }
+}
+
+export function describeRefRange(range: RefRange): string {
+  return `${range.base} → ${describeHead(range)}`;
+}
+
+function isInScope(file: string, paths: string[]): boolean {
+  if (paths.length === 0) return true;
+  return paths.some(p => file === p || file.startsWith(`${p}/`));
+}
+
+export function matchesGlob(file: string, globs: readonly string[]): boolean {
+  return globs.some(glob => new Bun.Glob(glob).match(file));
+}
+
+function splitLines(output: string): string[] {
+  return output.trim().split("\n").filter(f => f.length > 0);
+}
+
+async function listChangedFiles(range: RefRange): Promise<string[]> {
+  switch (range.mode) {
+    case "committed": {
+      const diff = await $`git diff ${range.base} ${range.head ?? "HEAD"} --name-only`.text().catch(() => "");
+      return splitLines(diff);
+    }
+    case "staged": {
+      const diff = await $`git diff --cached ${range.base} --name-only`.text().catch(() => "");
+      return splitLines(diff);
+    }
+    case "worktree": {
+      // `git diff` never lists untracked files, so files split out but not yet added would look removed
+      const diff = await $`git diff ${range.base} --name-only`.text().catch(() => "");
+      const untracked = await $`git ls-files --others --exclude-standard --full-name`.text().catch(() => "");
+      return [...new Set([...splitLines(diff), ...splitLines(untracked)])].sort();
+    }
+    case "directories":
+      return listChangedDirectoryFiles(range);
+  }
+}
+
+async function getChangedFiles(range: RefRange, scope: FileScope, extensions: string[]): Promise<string[]> {
+  let files: string[];
+  if (scope.files.length > 0) {
+    files = scope.files;
+  } else {
+    files = await listChangedFiles(range);
+  }
+
+  return files.filter(
+    f =>
+      extensions.some(ext => f.endsWith(ext)) &&
+      isInScope(f, scope.paths) &&
+      (scope.include.length === 0 || matchesGlob(f, scope.include)) &&
+      !matchesGlob(f, scope.exclude)
+  );
+}
+
+export async function getChangedPythonFiles(range: RefRange, scope: FileScope): Promise<string[]> {
+  return getChangedFiles(range, scope, [".py"]);
+}
+
+export async function getChangedTSFiles(range: RefRange, scope: FileScope): Promise<string[]> {
+  return getChangedFiles(range, scope, [".ts", ".tsx"]);
+}
+
+/** A file's content at a ref; empty when it doesn't exist there */
+export async function getFileContentAt(ref: string, filePath: string): Promise<string> {
+  return await $`git show ${ref}:${filePath}`.quiet().text().catch(() => "");
+}
+
+/** Contents of many files at a ref, read by one `git cat-file --batch`; missing files map to "" */
+export async function getFileContentsAt(ref: string, filePaths: string[]): Promise<Map<string, string>> {
+  if (filePaths.length === 0) return new Map();
+  const proc = Bun.spawn(["git", "cat-file", "--batch"], {
+    stdin: new Response(filePaths.map(file => `${ref}:${file}\n`).join("")),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const output = new Uint8Array(await new Response(proc.stdout).arrayBuffer());
+  await proc.exited;
+  return parseCatFileBatch(output, filePaths);
+}
+
+/**
+ * Splits `git cat-file --batch` output into the files requested, in order.
+ * Each object is `<oid> <type> <size>\n<content>\n`, or `<name> missing\n`;
+ * trees and submodule commits are skipped over and map to "" like missing files.
+ */
+export function parseCatFileBatch(output: Uint8Array, filePaths: string[]): Map<string, string> {
+  const contents = new Map<string, string>();
+  const decoder = new TextDecoder();
+  let position = 0;
+  for (const file of filePaths) {
+    const headerEnd = output.indexOf(10, position);
+    if (headerEnd === -1) break;
+    const header = decoder.decode(output.subarray(position, headerEnd)).split(" ");
+    position = headerEnd + 1;
+    const size = header.length === 3 ? Number(header[2]) : NaN;
+    if (header[1] !== "blob" || Number.isNaN(size)) {
+      contents.set(file, "");
+      if (!Number.isNaN(size)) position += size + 1;
+      continue;
+    }
+    contents.set(file, decoder.decode(output.subarray(position, position + size)));
+    position += size + 1;
+  }
+  return contents;
+}
+
+/** Contents of many files on one side; missing files map to "" */
+export async function getSideFileContents(range: RefRange, side: TreeSide, filePaths: string[]): Promise<Map<string, string>> {
+  if (range.mode === "directories") {
+    return new Map(filePaths.map(file => [file, readSideFile(range, side, file) ?? ""]));
+  }
+  const revision = sideRevision(range, side);
+  if (revision !== undefined) return getFileContentsAt(revision, filePaths);
+  const contents = new Map<string, string>();
+  for (const file of filePaths) contents.set(file, await Bun.file(file).text().catch(() => ""));
+  return contents;
+}
+
+export async function getOldFileContent(range: RefRange, filePath: string): Promise<string> {
+  if (range.mode === "directories") return readSideFile(range, "old", filePath) ?? "";
+  return getFileContentAt(range.base, filePath);
+}
+
+export async function getNewFileContent(range: RefRange, filePath: string): Promise<string> {
+  if (range.mode === "directories") return readSideFile(range, "new", filePath) ?? "";
+  if (range.mode === "committed") {
+    return await $`git show ${range.head ?? "HEAD"}:${filePath}`.quiet().text().catch(() => "");
+  }
+  if (range.mode === "staged") {
+    const indexPath = `:${filePath}`;
+    return await $`git show ${indexPath}`.quiet().text().catch(() => "");
+  }
+  try {
+    return await Bun.file(filePath).text();
+  } catch {
+    return "";
+  }
+}
+
+export interface CommitInfo {
+  sha: string;
+  subject: string;
+  author: string;
+}
+
+/** Commits of `base..head`, oldest first, following the first parent through merges */
+export async function listCommits(base: string, head: string): Promise<CommitInfo[]> {
+  const revisions = `${base}..${head}`;
+  const output = await $`git log --reverse --first-parent --format=%H%x1f%an%x1f%s ${revisions}`.text();
+  return splitLines(output).map(line => {
+    const [sha, author, subject] = line.split("\x1f");
+    return { sha, subject, author };
+  });
+}
+
+/** Files that differ between two refs */
+export async function listFilesChangedBetween(from: string, to: string): Promise<string[]> {
+  return splitLines(await $`git diff --name-only ${from} ${to}`.text());
+}
+
+export type TreeSide = "old" | "new";
+
+/**
+ * Synchronous, read-only view of one side of the comparison, for consumers
+ * such as the TypeScript compiler host that cannot await file reads.
+ * Paths are relative to the repository root.
+ */
+export interface TreeSnapshot {
+  side: TreeSide;
+  files: ReadonlySet<string>;
+  directories: ReadonlySet<string>;
+  read(path: string): string | undefined;
+}
+
+/** Revision a side is read from: a ref, "" for the index, undefined for the working tree */
+function sideRevision(range: RefRange, side: TreeSide): string | undefined {
+  if (side === "old") return range.base;
+  if (range.mode === "committed") return range.head ?? "HEAD";
+  if (range.mode === "staged") return "";
+  return undefined;
+}
+
+/** Files of a side relative to the repository root, whichever directory the scripts run from */
+async function listTreeFiles(range: RefRange, side: TreeSide, root: string): Promise<string[]> {
+  if (range.mode === "directories") return listSideFiles(range, side);
+  const revision = sideRevision(range, side);
+  if (revision) return splitLines(await $`git ls-tree -r --name-only --full-tree ${revision}`.text().catch(() => ""));
+  // ls-files only lists what is under the working directory, so it runs from the root
+  if (revision === "") return splitLines(await $`git ls-files --cached --full-name`.cwd(root).text().catch(() => ""));
+  const listed = splitLines(
+    await $`git ls-files --cached --others --exclude-standard --full-name`.cwd(root).text().catch(() => "")
+  );
+  // Tracked files deleted in the working tree are still listed by ls-files
+  const present = await Promise.all(listed.map(file => Bun.file(join(root, file)).exists()));
+  return listed.filter((_, i) => present[i]);
+}
+
+export async function openTreeSnapshot(range: RefRange, side: TreeSide): Promise<TreeSnapshot> {
+  const root = range.mode === "directories" ? "" : await getRepositoryRoot();
+  const files = new Set(await listTreeFiles(range, side, root));
+  const directories = new Set<string>([""]);
+  for (const file of files) {
+    for (let slash = file.indexOf("/"); slash !== -1; slash = file.indexOf("/", slash + 1)) {
+      directories.add(file.slice(0, slash));
+    }
+  }
+
+  const revision = sideRevision(range, side);
+  const cache = new Map<string, string | undefined>();
+  const read = (path: string): string | undefined => {
+    if (!files.has(path)) return undefined;
+    if (!cache.has(path)) {
+      if (range.mode === "directories") {
+        cache.set(path, readSideFile(range, side, path));
+      } else if (revision === undefined) {
+        try {
+          cache.set(path, readFileSync(join(root, path), "utf8"));
+        } catch {
+          cache.set(path, undefined);
+        }
+      } else {
+        const proc = Bun.spawnSync(["git", "show", `${revision}:${path}`]);
+        cache.set(path, proc.exitCode === 0 ? proc.stdout.toString() : undefined);
+      }
+    }
+    return cache.get(path);
+  };
+
+  return { side, files, directories, read };
+}
+
+/** Files on one side containing any of the words, limited to the given extensions */
+export async function grepTree(range: RefRange, side: TreeSide, words: string[], extensions: string[]): Promise<string[]> {
+  if (words.length === 0) return [];
+  if (range.mode === "directories") return grepSide(range, side, words, extensions);
+  const patterns = words.flatMap(word => ["-e", word]);
+  const globs = extensions.map(ext => `*${ext}`);
+  const revision = sideRevision(range, side);
+  let output: string;
+  if (revision) {
+    output = await $`git grep -l -w -F ${patterns} ${revision} -- ${globs}`.quiet().text().catch(() => "");
+    // Matches are listed as `<ref>:<path>`
+    return splitLines(output).map(line => line.slice(revision.length + 1));
+  }
+  if (revision === "") {
+    output = await $`git grep --cached -l -w -F ${patterns} -- ${globs}`.quiet().text().catch(() => "");
+  } else {
+    output = await $`git grep --untracked -l -w -F ${patterns} -- ${globs}`.quiet().text().catch(() => "");
+  }
+  return splitLines(output);
+}
+
+/** One side of the comparison materialized on disk, for tools that need a real file tree */
+export interface TreeCheckout {
+  root: string;
+  /** Deletes the temporary checkout; a no-op for the working tree */
+  remove(): Promise<void>;
+}
+
+export async function getRepositoryRoot(): Promise<string> {
+  return (await $`git rev-parse --show-toplevel`.text()).trim();
+}
+
+/**
+ * Checks a side out into a temporary directory: refs through a detached
+ * `git worktree`, the index through `git checkout-index`. The working tree
+ * and the roots of directories mode are used in place.
+ */
+export async function checkoutTree(range: RefRange, side: TreeSide): Promise<TreeCheckout> {
+  if (range.mode === "directories") return { root: sideRoot(range, side), remove: async () => {} };
+  const revision = sideRevision(range, side);
+  if (revision === undefined) return { root: await getRepositoryRoot(), remove: async () => {} };
+
+  const root = await mkdtemp(join(tmpdir(), "refactor-verifier-"));
+  if (revision === "") {
+    await $`git checkout-index --all --prefix=${root}/`.quiet();
+    return { root, remove: () => rm(root, { recursive: true, force: true }) };
+  }
+  await $`git worktree add --detach --quiet ${root} ${revision}`.quiet();
+  return {
+    root,
+    remove: async () => {
+      await $`git worktree remove --force ${root}`.quiet().nothrow();
+      await rm(root, { recursive: true, force: true });
+    },
+  };
+}
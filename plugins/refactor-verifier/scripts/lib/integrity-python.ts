@@ -0,0 +1,424 @@
+/**
+ * Import integrity for Python
+ *
+ * Reads the module-level imports of each side (including those inside
+ * `if`/`try`/`with` blocks, but not inside functions) and resolves
+ * `from module import name` chains through re-exports to the definition
+ * they reach:
+ * - every import that reached a moved definition in the old tree must reach
+ *   a definition with the same body in the new tree;
+ * - `__init__.py` files above changed files must export (`__all__`, or every
+ *   public name) what they exported before, and their re-exports must still
+ *   resolve;
+ * - changed modules must not be part of a new load-time import cycle; imports
+ *   under `if TYPE_CHECKING:` don't count.
+ *
+ * Modules are looked up from the repository root and from `src/`. Modules
+ * outside the tree (the standard library, installed packages) are external
+ * and never reported.
+ */
+
+import type { TreeSnapshot } from "./git";
+import {
+  locationKey,
+  newImportCycles,
+  type ImportGraph,
+  type IntegrityContext,
+  type IntegrityIssue,
+  type RelocatedDefinition,
+} from "./integrity";
+
+const MODULE_ROOTS = ["", "src/"];
+
+// Python script describing the imports and top-level names of several modules
+const PYTHON_IMPORT_SCANNER = `
+import ast
+import json
+import sys
+
+TYPE_ALIAS_NODE = getattr(ast, "TypeAlias", None)
+TRY_NODES = tuple(node for node in (getattr(ast, "Try", None), getattr(ast, "TryStar", None)) if node)
+
+def module_name(path):
+    parts = path[:-3].split("/")
+    is_package = parts[-1] == "__init__"
+    if is_package:
+        parts = parts[:-1]
+    return ".".join(parts), is_package
+
+def absolute_module(module, is_package, level, target):
+    """Resolve a relative import against the importing module's package."""
+    if level == 0:
+        return target
+    package = module.split(".") if is_package else module.split(".")[:-1]
+    if level > 1:
+        package = package[: len(package) - (level - 1)]
+    base = ".".join(package)
+    if target and base:
+        return f"{base}.{target}"
+    return target or base
+
+def is_type_checking(test):
+    return ast.unparse(test) in ("TYPE_CHECKING", "typing.TYPE_CHECKING")
+
+def module_statements(body, runtime=True):
+    """Module-level statements, looking into if/try/with blocks but not functions or classes."""
+    for node in body:
+        yield node, runtime
+        if isinstance(node, ast.If):
+            yield from module_statements(node.body, runtime and not is_type_checking(node.test))
+            yield from module_statements(node.orelse, runtime)
+        elif TRY_NODES and isinstance(node, TRY_NODES):
+            for block in [node.body, node.orelse, node.finalbody] + [h.body for h in node.handlers]:
+                yield from module_statements(block, runtime)
+        elif isinstance(node, (ast.With, ast.AsyncWith)):
+            yield from module_statements(node.body, runtime)
+
+def assigned_names(target):
+    if isinstance(target, ast.Name):
+        return [target.id]
+    if isinstance(target, (ast.Tuple, ast.List)):
+        return [name for element in target.elts for name in assigned_names(element)]
+    if isinstance(target, ast.Starred):
+        return assigned_names(target.value)
+    return []
+
+def literal_names(value):
+    try:
+        names = ast.literal_eval(value)
+    except ValueError:
+        return None
+    return [name for name in names if isinstance(name, str)] if isinstance(names, (list, tuple)) else None
+
+def describe(path, source):
+    tree = ast.parse(source)
+    module, is_package = module_name(path)
+    definitions = {}
+    imports = []
+    exported = None
+
+    for node, runtime in module_statements(tree.body):
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+            definitions[node.name] = node.lineno
+        elif isinstance(node, ast.Assign):
+            for target in node.targets:
+                for name in assigned_names(target):
+                    definitions[name] = node.lineno
+                    if name == "__all__":
+                        exported = literal_names(node.value)
+        elif isinstance(node, ast.AnnAssign) and isinstance(node.target, ast.Name):
+            definitions[node.target.id] = node.lineno
+        elif TYPE_ALIAS_NODE is not None and isinstance(node, TYPE_ALIAS_NODE):
+            definitions[node.name.id] = node.lineno
+        elif isinstance(node, ast.Import):
+            for alias in node.names:
+                # "import a.b" binds "a"; "import a.b as c" binds the submodule itself
+                bound = alias.name if alias.asname else alias.name.split(".")[0]
+                imports.append({"local": alias.asname or bound, "module": bound, "name": None,
+                                "lineno": node.lineno, "runtime": runtime})
+        elif isinstance(node, ast.ImportFrom):
+            source_module = absolute_module(module, is_package, node.level, node.module)
+            for alias in node.names:
+                imports.append({"local": alias.asname or alias.name, "module": source_module, "name": alias.name,
+                                "lineno": node.lineno, "runtime": runtime})
+
+    loaded = {}
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Name) and isinstance(node.ctx, ast.Load):
+            loaded[node.id] = min(loaded.get(node.id, node.lineno), node.lineno)
+
+    return {
+        "module": module,
+        "is_package": is_package,
+        "definitions": definitions,
+        "imports": imports,
+        "exported": exported,
+        "loaded": loaded,
+    }
+
+if __name__ == "__main__":
+    sources = json.load(sys.stdin)
+    result = {}
+    for path, source in sources.items():
+        try:
+            result[path] = describe(path, source)
+        except SyntaxError as e:
+            result[path] = {"error": f"Syntax error in {path}: {e}"}
+    print(json.dumps(result))
+`;
+
+interface PythonImport {
+  /** Name bound in the importing module (`*` for star imports) */
+  local: string;
+  /** Absolute module imported from */
+  module: string;
+  /** Imported name; null for `import module` */
+  name: string | null;
+  lineno: number;
+  /** False under `if TYPE_CHECKING:` */
+  runtime: boolean;
+}
+
+interface PythonModule {
+  module: string;
+  is_package: boolean;
+  /** Top-level names defined in the module, with their lines */
+  definitions: Record<string, number>;
+  imports: PythonImport[];
+  /** Literal `__all__`, when present */
+  exported: string[] | null;
+  /** Names read anywhere in the module, with the first line reading them */
+  loaded: Record<string, number>;
+  error?: string;
+}
+
+/** A definition, a module object, a name from outside the tree, or nothing at all */
+type PythonTarget = { file: string; lineno: number } | "module" | "external" | null;
+
+async function describeModules(tree: TreeSnapshot, paths: string[]): Promise<Record<string, PythonModule>> {
+  const sources: Record<string, string> = {};
+  for (const path of paths) {
+    const source = tree.read(path);
+    if (source !== undefined) sources[path] = source;
+  }
+  const proc = Bun.spawn(["python3", "-c", PYTHON_IMPORT_SCANNER], {
+    stdin: new Response(JSON.stringify(sources)),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  await proc.exited;
+
+  if (proc.exitCode !== 0) {
+    console.error("Error scanning Python imports:", stderr);
+    return {};
+  }
+  return JSON.parse(stdout);
+}
+
+/** Module graph of one side, loaded on demand from the files a check starts from */
+interface PythonTree {
+  tree: TreeSnapshot;
+  modules: Map<string, PythonModule>;
+  /** Files already handed to the scanner, including those that failed to parse */
+  scanned: Set<string>;
+}
+
+function moduleFile(pt: PythonTree, module: string): string | undefined {
+  const stem = module.replace(/\./g, "/");
+  for (const root of MODULE_ROOTS) {
+    for (const candidate of [`${root}${stem}.py`, `${root}${stem}/__init__.py`]) {
+      if (pt.tree.files.has(candidate)) return candidate;
+    }
+  }
+  return undefined;
+}
+
+/** Files an import loads: the module, and the submodule when the imported name is one */
+function importedFiles(pt: PythonTree, imported: PythonImport): string[] {
+  const files = [moduleFile(pt, imported.module)];
+  if (imported.name && imported.name !== "*") files.push(moduleFile(pt, `${imported.module}.${imported.name}`));
+  return files.filter((file): file is string => file !== undefined);
+}
+
+/** Describes the given files and, transitively, every module they import from the tree */
+async function loadModules(pt: PythonTree, paths: Iterable<string>): Promise<void> {
+  let pending = [...new Set(paths)].filter(path => pt.tree.files.has(path) && !pt.scanned.has(path));
+  while (pending.length > 0) {
+    pending.forEach(path => pt.scanned.add(path));
+    const described = await describeModules(pt.tree, pending);
+    const next = new Set<string>();
+    for (const path of pending) {
+      const info = described[path];
+      if (!info || info.error) continue;
+      pt.modules.set(path, info);
+      for (const imported of info.imports) {
+        for (const file of importedFiles(pt, imported)) {
+          if (!pt.scanned.has(file)) next.add(file);
+        }
+      }
+    }
+    pending = [...next];
+  }
+}
+
+function resolveImport(pt: PythonTree, imported: PythonImport, seen = new Set<string>()): PythonTarget {
+  if (imported.name === null) return "module";
+  const file = moduleFile(pt, imported.module);
+  const submodule = moduleFile(pt, `${imported.module}.${imported.name}`);
+  if (!file) return submodule ? "module" : "external";
+  const target = resolveName(pt, file, imported.name, seen);
+  return target === null && submodule ? "module" : target;
+}
+
+function resolveName(pt: PythonTree, file: string, name: string, seen = new Set<string>()): PythonTarget {
+  const key = `${file}:${name}`;
+  if (seen.has(key)) return null;
+  seen.add(key);
+
+  const info = pt.modules.get(file);
+  if (!info) return "external";
+  if (name in info.definitions) return { file, lineno: info.definitions[name] };
+
+  const imported = info.imports.find(i => i.local === name);
+  if (imported) return resolveImport(pt, imported, seen);
+
+  for (const star of info.imports.filter(i => i.local === "*")) {
+    const source = moduleFile(pt, star.module);
+    if (!source) return "external";
+    const target = resolveName(pt, source, name, seen);
+    if (target !== null) return target;
+  }
+  return info.is_package && moduleFile(pt, `${info.module}.${name}`) ? "module" : null;
+}
+
+/** `__all__`, or every public name bound at module level */
+function moduleExports(pt: PythonTree, file: string): string[] {
+  const info = pt.modules.get(file);
+  if (!info) return [];
+  if (info.exported) return info.exported;
+  const bound = [...Object.keys(info.definitions), ...info.imports.map(i => i.local)];
+  return [...new Set(bound)].filter(name => !name.startsWith("_") && name !== "*");
+}
+
+function importGraph(pt: PythonTree): ImportGraph {
+  const graph: ImportGraph = new Map();
+  for (const [file, info] of pt.modules) {
+    graph.set(file, new Set(info.imports.filter(i => i.runtime).flatMap(i => importedFiles(pt, i))));
+  }
+  return graph;
+}
+
+function isTargetHash(target: PythonTarget, context: IntegrityContext, hash: string): boolean {
+  return typeof target === "object" && target !== null && context.newHashes.get(locationKey(target.file, target.lineno)) === hash;
+}
+
+function describeTarget(target: PythonTarget): string {
+  if (target === null) return "nothing";
+  if (typeof target === "string") return target === "module" ? "a module" : "a module outside the tree";
+  return `${target.file}:${target.lineno}`;
+}
+
+/** Importers whose `from ... import name` reached the old definition, with the name they bind */
+function oldImporters(pt: PythonTree, relocated: RelocatedDefinition): Array<{ file: string; local: string }> {
+  const importers: Array<{ file: string; local: string }> = [];
+  for (const [file, info] of pt.modules) {
+    for (const imported of info.imports) {
+      if (imported.name !== relocated.oldName) continue;
+      const target = resolveImport(pt, imported);
+      if (typeof target === "object" && target?.file === relocated.old.file && target.lineno === relocated.old.lineno) {
+        importers.push({ file, local: imported.local });
+      }
+    }
+  }
+  return importers;
+}
+
+function checkReferences(oldTree: PythonTree, newTree: PythonTree, context: IntegrityContext): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  for (const relocated of context.relocated) {
+    for (const { file, local } of oldImporters(oldTree, relocated)) {
+      const info = newTree.modules.get(file);
+      if (!info) continue;
+      // A caller may import the new name under the old alias, or switch to the new name
+      const imported = info.imports.find(i => i.local === local) ?? info.imports.find(i => i.name === relocated.newName);
+      const bound = imported?.local ?? local;
+
+      let target: PythonTarget;
+      let lineno: number;
+      if (imported) {
+        target = resolveImport(newTree, imported);
+        lineno = imported.lineno;
+      } else if (local in info.definitions) {
+        target = { file, lineno: info.definitions[local] };
+        lineno = info.definitions[local];
+      } else if (local in info.loaded) {
+        target = null;
+        lineno = info.loaded[local];
+      } else {
+        continue;
+      }
+
+      if (target === null) {
+        issues.push({
+          language: "python",
+          kind: "unresolved-reference",
+          file,
+          lineno,
+          message: `${bound} no longer resolves (now ${relocated.newName} at ${relocated.new.file}:${relocated.new.lineno})`,
+        });
+      } else if (!isTargetHash(target, context, relocated.new.hash)) {
+        issues.push({
+          language: "python",
+          kind: "different-target",
+          file,
+          lineno,
+          message: `${bound} resolves to ${describeTarget(target)} instead of the moved definition at ${relocated.new.file}:${relocated.new.lineno}`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/** `__init__.py` files of the packages containing the changed files */
+function packageInits(tree: TreeSnapshot, changedFiles: string[]): string[] {
+  const inits = new Set<string>();
+  for (const file of changedFiles) {
+    const parts = file.split("/").slice(0, -1);
+    for (let depth = parts.length; depth > 0; depth--) {
+      const init = `${parts.slice(0, depth).join("/")}/__init__.py`;
+      if (tree.files.has(init)) inits.add(init);
+    }
+  }
+  return [...inits];
+}
+
+function checkReexports(oldTree: PythonTree, newTree: PythonTree, inits: string[]): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  for (const init of inits) {
+    const newExports = new Set(moduleExports(newTree, init));
+    for (const name of moduleExports(oldTree, init)) {
+      if (newExports.has(name)) continue;
+      issues.push({
+        language: "python",
+        kind: "missing-export",
+        file: init,
+        lineno: 1,
+        message: `${init} no longer exports ${name}`,
+      });
+    }
+    for (const name of newExports) {
+      if (resolveName(newTree, init, name) !== null || resolveName(oldTree, init, name) === null) continue;
+      const imported = newTree.modules.get(init)?.imports.find(i => i.local === name);
+      issues.push({
+        language: "python",
+        kind: "stale-reexport",
+        file: init,
+        lineno: imported?.lineno ?? 1,
+        message: `${name} is re-exported but ${imported ? imported.module : "the package"} no longer provides it`,
+      });
+    }
+  }
+  return issues;
+}
+
+export async function checkPythonIntegrity(context: IntegrityContext): Promise<IntegrityIssue[]> {
+  const changedFiles = context.changedFiles.filter(file => file.endsWith(".py"));
+  const oldTree: PythonTree = { tree: context.oldTree, modules: new Map(), scanned: new Set() };
+  const newTree: PythonTree = { tree: context.newTree, modules: new Map(), scanned: new Set() };
+  const inits = [...new Set([...packageInits(context.oldTree, changedFiles), ...packageInits(context.newTree, changedFiles)])];
+
+  const oldCandidates = await context.findFiles("old", context.relocated.map(r => r.oldName), [".py"]);
+  const newCandidates = await context.findFiles("new", context.relocated.map(r => r.newName), [".py"]);
+  await loadModules(oldTree, [...changedFiles, ...oldCandidates, ...inits]);
+  await loadModules(newTree, [...changedFiles, ...oldCandidates, ...newCandidates, ...inits]);
+
+  return [
+    ...checkReferences(oldTree, newTree, context),
+    ...checkReexports(oldTree, newTree, inits),
+    ...newImportCycles("python", importGraph(oldTree), importGraph(newTree), changedFiles),
+  ];
+}
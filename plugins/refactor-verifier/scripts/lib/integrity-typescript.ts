@@ -0,0 +1,312 @@
+/**
+ * Import integrity for TypeScript
+ *
+ * Builds a compiler program over each side of the comparison, backed by the
+ * tree snapshots rather than the file system, and uses the type checker to
+ * follow imports and re-exports to the declarations they reach:
+ * - every reference that reached a moved definition in the old tree must
+ *   reach a definition with the same body in the new tree;
+ * - entry points (package.json targets and `index` barrels above changed
+ *   files) must export every name they exported before, and their
+ *   re-exports must still resolve;
+ * - changed files must not be part of a new load-time import cycle.
+ *
+ * Type-only imports and exports are ignored for cycles. Libraries in
+ * node_modules are not loaded, so imports from packages stay unresolved.
+ */
+
+import ts from "typescript";
+import type { TreeSnapshot } from "./git";
+import {
+  locationKey,
+  newImportCycles,
+  type ImportGraph,
+  type IntegrityContext,
+  type IntegrityIssue,
+  type RelocatedDefinition,
+} from "./integrity";
+import { isPropertyName } from "./typescript-alpha";
+import { packageDirectories, packageEntryPoints, TS_EXTENSIONS } from "./typescript-packages";
+
+interface TreeProgram {
+  tree: TreeSnapshot;
+  program: ts.Program;
+  checker: ts.TypeChecker;
+}
+
+interface ResolvedTarget {
+  file: string;
+  lineno: number;
+}
+
+/** Program file names are rooted at `/` so they map 1:1 onto snapshot paths */
+function toTreePath(fileName: string): string {
+  return fileName.replace(/^\/+/, "");
+}
+
+function isSourcePath(path: string): boolean {
+  return TS_EXTENSIONS.some(ext => path.endsWith(ext)) && !path.endsWith(".d.ts");
+}
+
+/** Module resolution settings, plus `baseUrl`/`paths` aliases from the root tsconfig.json */
+function compilerOptions(tree: TreeSnapshot): ts.CompilerOptions {
+  const options: ts.CompilerOptions = {
+    noEmit: true,
+    noLib: true,
+    types: [],
+    allowImportingTsExtensions: true,
+    jsx: ts.JsxEmit.Preserve,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    target: ts.ScriptTarget.Latest,
+  };
+  const config = tree.read("tsconfig.json");
+  if (!config) return options;
+  const raw = ts.parseConfigFileTextToJson("tsconfig.json", config).config?.compilerOptions;
+  if (!raw) return options;
+  const { options: parsed } = ts.convertCompilerOptionsFromJson(raw, "/");
+  if (parsed.baseUrl) options.baseUrl = parsed.baseUrl;
+  if (parsed.paths) options.paths = parsed.paths;
+  return options;
+}
+
+function createTreeProgram(tree: TreeSnapshot, roots: Iterable<string>): TreeProgram {
+  const options = compilerOptions(tree);
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = tree.read(toTreePath(fileName));
+      if (text === undefined) return undefined;
+      const kind = fileName.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+      return ts.createSourceFile(fileName, text, languageVersion, true, kind);
+    },
+    getDefaultLibFileName: () => "/lib.d.ts",
+    writeFile: () => {},
+    getCurrentDirectory: () => "/",
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => "\n",
+    fileExists: fileName => tree.files.has(toTreePath(fileName)),
+    readFile: fileName => tree.read(toTreePath(fileName)),
+    directoryExists: directory => tree.directories.has(toTreePath(directory).replace(/\/+$/, "")),
+    getDirectories: () => [],
+  };
+  const rootNames = [...new Set(roots)].filter(path => tree.files.has(path)).map(path => `/${path}`);
+  const program = ts.createProgram({ rootNames, options, host });
+  return { tree, program, checker: program.getTypeChecker() };
+}
+
+function lineOf(node: ts.Node): number {
+  const sourceFile = node.getSourceFile();
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+/** Line the extractor records for a declaration: variables are recorded at their statement */
+function declarationLine(declaration: ts.Declaration): number {
+  if (ts.isVariableDeclaration(declaration) && ts.isVariableStatement(declaration.parent.parent)) {
+    return lineOf(declaration.parent.parent);
+  }
+  return lineOf(declaration);
+}
+
+/**
+ * Declaration an identifier reaches, following import and re-export aliases.
+ * `null` when it resolves to nothing (a broken import); `undefined` when it
+ * is not an import binding or a top-level declaration, e.g. a local variable
+ * that merely shares the name.
+ */
+function resolveReference(checker: ts.TypeChecker, node: ts.Identifier): ResolvedTarget | null | undefined {
+  let symbol = checker.getSymbolAtLocation(node);
+  if (!symbol) return null;
+  const viaImport = (symbol.flags & ts.SymbolFlags.Alias) !== 0;
+  if (viaImport) symbol = checker.getAliasedSymbol(symbol);
+  const declaration = symbol.declarations?.[0];
+  if (!declaration) return null;
+  const statement = ts.isVariableDeclaration(declaration) ? declaration.parent.parent : declaration;
+  if (!viaImport && !ts.isSourceFile(statement.parent)) return undefined;
+  return { file: toTreePath(declaration.getSourceFile().fileName), lineno: declarationLine(declaration) };
+}
+
+/** Identifiers named `name` that can refer to a binding (not property names or labels) */
+function identifiersNamed(sourceFile: ts.SourceFile, name: string): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const walk = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name && !isPropertyName(node)) found.push(node);
+    ts.forEachChild(node, walk);
+  };
+  walk(sourceFile);
+  return found;
+}
+
+function sourceFileOf(tp: TreeProgram, path: string): ts.SourceFile | undefined {
+  return tp.program.getSourceFile(`/${path}`);
+}
+
+/** Files with a reference that reached the old definition */
+function oldReferences(tp: TreeProgram, files: string[], relocated: RelocatedDefinition): Set<string> {
+  const referencing = new Set<string>();
+  for (const file of files) {
+    const sourceFile = sourceFileOf(tp, file);
+    if (!sourceFile) continue;
+    for (const identifier of identifiersNamed(sourceFile, relocated.oldName)) {
+      const target = resolveReference(tp.checker, identifier);
+      if (target && target.file === relocated.old.file && target.lineno === relocated.old.lineno) {
+        // The definition's own name is not a reference
+        if (file !== relocated.old.file || lineOf(identifier) !== relocated.old.lineno) referencing.add(file);
+      }
+    }
+  }
+  return referencing;
+}
+
+function checkReferences(
+  oldProgram: TreeProgram,
+  newProgram: TreeProgram,
+  context: IntegrityContext,
+  candidates: string[]
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  for (const relocated of context.relocated) {
+    const referencing = oldReferences(oldProgram, candidates, relocated);
+    for (const file of referencing) {
+      const sourceFile = sourceFileOf(newProgram, file);
+      if (!sourceFile) continue;
+      // A caller may keep the old name after a rename, or switch to the new one
+      const names = new Set([relocated.oldName, relocated.newName]);
+      const identifiers = [...names].flatMap(name => identifiersNamed(sourceFile, name));
+      for (const identifier of identifiers) {
+        const target = resolveReference(newProgram.checker, identifier);
+        if (target === undefined) continue;
+        const at = { language: "typescript" as const, file, lineno: lineOf(identifier) };
+        if (target === null) {
+          issues.push({
+            ...at,
+            kind: "unresolved-reference",
+            message: `${identifier.text} no longer resolves (now ${relocated.newName} at ${relocated.new.file}:${relocated.new.lineno})`,
+          });
+        } else if (context.newHashes.get(locationKey(target.file, target.lineno)) !== relocated.new.hash) {
+          issues.push({
+            ...at,
+            kind: "different-target",
+            message: `${identifier.text} resolves to ${target.file}:${target.lineno} instead of the moved definition at ${relocated.new.file}:${relocated.new.lineno}`,
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/** `index.ts(x)` barrels in the directories of the changed files and their ancestors */
+function barrelEntryPoints(tree: TreeSnapshot, changedFiles: string[]): string[] {
+  const barrels = new Set<string>();
+  for (const file of changedFiles) {
+    const parts = file.split("/").slice(0, -1);
+    for (let depth = parts.length; depth >= 0; depth--) {
+      const directory = parts.slice(0, depth).join("/");
+      for (const ext of TS_EXTENSIONS) {
+        const barrel = directory ? `${directory}/index${ext}` : `index${ext}`;
+        if (tree.files.has(barrel)) barrels.add(barrel);
+      }
+    }
+  }
+  return [...barrels];
+}
+
+/** Exported names of a module with the declaration each one resolves to (null when stale) */
+function moduleExports(tp: TreeProgram, path: string): Map<string, { node: ts.Node; target: ts.Declaration | null }> {
+  const exports = new Map<string, { node: ts.Node; target: ts.Declaration | null }>();
+  const sourceFile = sourceFileOf(tp, path);
+  const moduleSymbol = sourceFile && tp.checker.getSymbolAtLocation(sourceFile);
+  if (!sourceFile || !moduleSymbol) return exports;
+  for (const symbol of tp.checker.getExportsOfModule(moduleSymbol)) {
+    const resolved = symbol.flags & ts.SymbolFlags.Alias ? tp.checker.getAliasedSymbol(symbol) : symbol;
+    exports.set(symbol.name, {
+      node: symbol.declarations?.[0] ?? sourceFile,
+      target: resolved.declarations?.[0] ?? null,
+    });
+  }
+  return exports;
+}
+
+function checkExports(oldProgram: TreeProgram, newProgram: TreeProgram, entryPoints: string[]): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  for (const entryPoint of entryPoints) {
+    const oldExports = moduleExports(oldProgram, entryPoint);
+    const newExports = moduleExports(newProgram, entryPoint);
+    for (const name of oldExports.keys()) {
+      if (!newExports.has(name)) {
+        issues.push({
+          language: "typescript",
+          kind: "missing-export",
+          file: entryPoint,
+          lineno: 1,
+          message: `${entryPoint} no longer exports ${name}`,
+        });
+      }
+    }
+    for (const [name, entry] of newExports) {
+      if (entry.target !== null || oldExports.get(name)?.target === null) continue;
+      issues.push({
+        language: "typescript",
+        kind: "stale-reexport",
+        file: entryPoint,
+        lineno: lineOf(entry.node),
+        message: `${name} is re-exported but its source module no longer provides it`,
+      });
+    }
+  }
+  return issues;
+}
+
+/** Load-time imports between the program's files in the tree; type-only imports are skipped */
+function importGraph(tp: TreeProgram): ImportGraph {
+  const graph: ImportGraph = new Map();
+  for (const sourceFile of tp.program.getSourceFiles()) {
+    const from = toTreePath(sourceFile.fileName);
+    if (!tp.tree.files.has(from)) continue;
+    const targets = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      let specifier: ts.Expression | undefined;
+      if (ts.isImportDeclaration(statement) && !statement.importClause?.isTypeOnly) {
+        specifier = statement.moduleSpecifier;
+      } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+        specifier = statement.moduleSpecifier;
+      }
+      const target = specifier && tp.checker.getSymbolAtLocation(specifier)?.valueDeclaration;
+      if (target && ts.isSourceFile(target) && tp.tree.files.has(toTreePath(target.fileName))) {
+        targets.add(toTreePath(target.fileName));
+      }
+    }
+    graph.set(from, targets);
+  }
+  return graph;
+}
+
+export async function checkTypeScriptIntegrity(context: IntegrityContext): Promise<IntegrityIssue[]> {
+  const changedFiles = context.changedFiles.filter(isSourcePath);
+  const candidates = {
+    old: (await context.findFiles("old", context.relocated.map(r => r.oldName), TS_EXTENSIONS)).filter(isSourcePath),
+    new: (await context.findFiles("new", context.relocated.map(r => r.newName), TS_EXTENSIONS)).filter(isSourcePath),
+  };
+  const entryPoints = [
+    ...new Set([
+      ...packageDirectories(context.oldTree, changedFiles).flatMap(dir => packageEntryPoints(context.oldTree, dir)),
+      ...barrelEntryPoints(context.oldTree, changedFiles),
+      ...barrelEntryPoints(context.newTree, changedFiles),
+    ]),
+  ];
+
+  const oldProgram = createTreeProgram(context.oldTree, [...changedFiles, ...candidates.old, ...entryPoints]);
+  const newProgram = createTreeProgram(context.newTree, [
+    ...changedFiles,
+    ...candidates.old,
+    ...candidates.new,
+    ...entryPoints,
+  ]);
+
+  return [
+    ...checkReferences(oldProgram, newProgram, context, candidates.old),
+    ...checkExports(oldProgram, newProgram, entryPoints),
+    ...newImportCycles("typescript", importGraph(oldProgram), importGraph(newProgram), changedFiles),
+  ];
+}
@@ -0,0 +1,146 @@
+/**
+ * Import integrity shared by both languages
+ *
+ * A refactor can keep every body identical and still break the program: a
+ * caller keeps importing from the old module, a barrel re-exports a name its
+ * source no longer has, or two modules start importing each other. The
+ * language-specific checks report these as integrity issues, which fail the
+ * verdict like any other difference.
+ */
+
+import type { ComparisonResult, DefinitionLocation } from "./comparison";
+import type { TreeSide, TreeSnapshot } from "./git";
+
+/**
+ * - unresolved-reference: a reference to a moved definition no longer resolves
+ * - different-target:     it resolves, but to a definition with a different body
+ * - missing-export:       an entry point or package no longer exports a name it exported before
+ * - stale-reexport:       a re-export points at a name its source module no longer has
+ * - import-cycle:         a new circular import involving a changed file
+ */
+export type IntegrityIssueKind =
+  | "unresolved-reference"
+  | "different-target"
+  | "missing-export"
+  | "stale-reexport"
+  | "import-cycle";
+
+export interface IntegrityIssue {
+  language: "python" | "typescript";
+  kind: IntegrityIssueKind;
+  file: string;
+  lineno: number;
+  message: string;
+}
+
+/** A top-level definition that moved to another file or was renamed, as importers see it */
+export interface RelocatedDefinition {
+  oldName: string;
+  newName: string;
+  old: DefinitionLocation;
+  new: DefinitionLocation;
+}
+
+/** Everything a language check needs about one verification run */
+export interface IntegrityContext {
+  oldTree: TreeSnapshot;
+  newTree: TreeSnapshot;
+  /** Changed files of the language being checked */
+  changedFiles: string[];
+  relocated: RelocatedDefinition[];
+  /** Body hash of each new definition in the changed files, by `file:line` */
+  newHashes: Map<string, string>;
+  /** Files on one side mentioning any of the names, e.g. through `git grep` */
+  findFiles: (side: TreeSide, names: string[], extensions: string[]) => Promise<string[]>;
+}
+
+export function locationKey(file: string, lineno: number): string {
+  return `${file}:${lineno}`;
+}
+
+/** Moved and renamed definitions that importers can name: members move with their container */
+export function relocatedDefinitions(comparison: ComparisonResult): RelocatedDefinition[] {
+  return [...comparison.moved, ...comparison.renamed]
+    .filter(item => !item.key.includes(">") && !item.oldKey?.includes(">"))
+    .map(item => ({ oldName: item.oldName ?? item.name, newName: item.name, old: item.old, new: item.new }));
+}
+
+export function newHashesByLocation(comparison: ComparisonResult): Map<string, string> {
+  const hashes = new Map<string, string>();
+  const items = [...comparison.matching, ...comparison.added, ...comparison.modified, ...comparison.moved, ...comparison.renamed];
+  for (const item of items) {
+    if (item.new) hashes.set(locationKey(item.new.file, item.new.lineno), item.new.hash);
+  }
+  return hashes;
+}
+
+/** Module → modules it imports at load time */
+export type ImportGraph = Map<string, Set<string>>;
+
+/** Strongly connected components of more than one module, plus modules importing themselves */
+export function importCycles(graph: ImportGraph): string[][] {
+  // Tarjan's algorithm
+  const visited = new Map<string, { index: number; lowLink: number }>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const connect = (module: string) => {
+    const state = { index: visited.size, lowLink: visited.size };
+    visited.set(module, state);
+    stack.push(module);
+    onStack.add(module);
+
+    for (const target of graph.get(module) ?? []) {
+      const targetState = visited.get(target);
+      if (!targetState) {
+        connect(target);
+        state.lowLink = Math.min(state.lowLink, visited.get(target)?.lowLink ?? state.lowLink);
+      } else if (onStack.has(target)) {
+        state.lowLink = Math.min(state.lowLink, targetState.index);
+      }
+    }
+
+    if (state.lowLink === state.index) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== module);
+      if (component.length > 1 || graph.get(module)?.has(module)) cycles.push(component.sort());
+    }
+  };
+
+  for (const module of graph.keys()) {
+    if (!visited.has(module)) connect(module);
+  }
+  return cycles;
+}
+
+/** Cycles on the new side that involve a changed file and are not part of an old cycle */
+export function newImportCycles(
+  language: IntegrityIssue["language"],
+  oldGraph: ImportGraph,
+  newGraph: ImportGraph,
+  changedFiles: string[]
+): IntegrityIssue[] {
+  const changed = new Set(changedFiles);
+  const oldCycles = importCycles(oldGraph);
+  return importCycles(newGraph)
+    .filter(cycle => cycle.some(file => changed.has(file)))
+    .filter(cycle => !oldCycles.some(old => cycle.every(file => old.includes(file))))
+    .map(cycle => ({
+      language,
+      kind: "import-cycle",
+      file: cycle.find(file => changed.has(file)) ?? cycle[0],
+      lineno: 1,
+      message: `Modules import each other at load time: ${cycle.join(", ")}`,
+    }));
+}
+
+export function formatIntegrityIssue(issue: IntegrityIssue): string {
+  return `${issue.file}:${issue.lineno} [${issue.kind}] ${issue.message}`;
+}
@@ -0,0 +1,181 @@
+/**
+ * Module statements: the top-level code of a file that is not a definition
+ *
+ * Imports, re-exports, top-level calls (`app.use(...)`, `registerPlugin(...)`),
+ * `if __name__ == "__main__":` blocks and other side effects run when a
+ * module loads. Splitting a file can drop or repeat them without touching a
+ * single definition, so they are compared across all changed files of a
+ * language:
+ * - side-effect statements (including `import "./polyfill"`) must survive
+ *   exactly once, in the same relative order within a file;
+ * - re-exports must survive, in any order;
+ * - binding imports may be reordered, duplicated into new files or dropped;
+ *   a dropped one is only reported as a warning. TypeScript elides an import
+ *   whose bindings go unused, so nothing runs without them. Python runs the
+ *   imported module either way: an import whose names the module never uses
+ *   is recorded as a side-effect statement, and one whose names are used
+ *   can't be dropped without breaking them, which `--check-imports` reports.
+ */
+
+export type ModuleStatementKind = "import" | "reexport" | "statement";
+
+export interface ModuleStatement {
+  kind: ModuleStatementKind;
+  file: string;
+  lineno: number;
+  /** First and last line of the statement */
+  lines: [number, number];
+  /** Hash of the statement's normalized form */
+  hash: string;
+  /** First line of the statement, for display */
+  text: string;
+}
+
+export interface StatementLocation {
+  file: string;
+  lineno: number;
+}
+
+/**
+ * - lost:       in the old code, missing from every new file
+ * - duplicated: runs more often in the new code than in the old
+ * - added:      a new statement with no old counterpart
+ * - reordered:  kept, but now runs before a statement it used to follow
+ */
+export type StatementChange = "lost" | "duplicated" | "added" | "reordered";
+
+export interface StatementItem {
+  change: StatementChange;
+  kind: ModuleStatementKind;
+  text: string;
+  old?: StatementLocation;
+  new?: StatementLocation;
+}
+
+/** Dropped binding imports pass the verdict with a warning; unused Python imports are side-effect statements */
+export function isBenignStatementChange(item: StatementItem): boolean {
+  return item.kind === "import";
+}
+
+function location(statement: ModuleStatement): StatementLocation {
+  return { file: statement.file, lineno: statement.lineno };
+}
+
+function byPosition(a: ModuleStatement, b: ModuleStatement): number {
+  return a.file.localeCompare(b.file) || a.lineno - b.lineno;
+}
+
+/** Indices of a longest strictly increasing subsequence */
+function longestIncreasing(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+  const kept = new Set<number>();
+  let i = lengths.indexOf(Math.max(0, ...lengths));
+  while (i !== -1) {
+    kept.add(i);
+    i = previous[i];
+  }
+  return kept;
+}
+
+/**
+ * Pairs old and new side-effect statements and reports those whose relative
+ * order changed: among pairs that share an old and a new file, the statements
+ * outside the longest run that kept its order.
+ */
+function reorderedStatements(pairs: Array<[ModuleStatement, ModuleStatement]>): StatementItem[] {
+  const groups = new Map<string, Array<[ModuleStatement, ModuleStatement]>>();
+  for (const pair of pairs) {
+    const key = `${pair[0].file}\0${pair[1].file}`;
+    groups.set(key, [...(groups.get(key) ?? []), pair]);
+  }
+  const items: StatementItem[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => a[1].lineno - b[1].lineno);
+    const kept = longestIncreasing(group.map(([oldStatement]) => oldStatement.lineno));
+    group.forEach(([oldStatement, newStatement], i) => {
+      if (kept.has(i)) return;
+      items.push({
+        change: "reordered",
+        kind: oldStatement.kind,
+        text: newStatement.text,
+        old: location(oldStatement),
+        new: location(newStatement),
+      });
+    });
+  }
+  return items;
+}
+
+export function compareModuleStatements(oldStatements: ModuleStatement[], newStatements: ModuleStatement[]): StatementItem[] {
+  const groups = new Map<string, { old: ModuleStatement[]; new: ModuleStatement[] }>();
+  const groupOf = (statement: ModuleStatement) => {
+    const key = `${statement.kind}:${statement.hash}`;
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = { old: [], new: [] }));
+    return group;
+  };
+  oldStatements.forEach(statement => groupOf(statement).old.push(statement));
+  newStatements.forEach(statement => groupOf(statement).new.push(statement));
+
+  const items: StatementItem[] = [];
+  const pairs: Array<[ModuleStatement, ModuleStatement]> = [];
+  for (const group of groups.values()) {
+    const olds = [...group.old].sort(byPosition);
+    const news = [...group.new].sort(byPosition);
+    const kind = (olds[0] ?? news[0]).kind;
+
+    if (kind === "import") {
+      if (news.length === 0) {
+        items.push(...olds.map(statement => ({ change: "lost" as const, kind, text: statement.text, old: location(statement) })));
+      }
+      continue;
+    }
+
+    // Pair occurrences that stayed in their file first, then the rest in order
+    const oldLeft = [...olds];
+    const newLeft = [...news];
+    for (const oldStatement of olds) {
+      const index = newLeft.findIndex(statement => statement.file === oldStatement.file);
+      if (index === -1) continue;
+      pairs.push([oldStatement, newLeft[index]]);
+      oldLeft.splice(oldLeft.indexOf(oldStatement), 1);
+      newLeft.splice(index, 1);
+    }
+    while (oldLeft.length > 0 && newLeft.length > 0) {
+      const oldStatement = oldLeft.shift();
+      const newStatement = newLeft.shift();
+      if (oldStatement && newStatement) pairs.push([oldStatement, newStatement]);
+    }
+
+    for (const statement of oldLeft) items.push({ change: "lost", kind, text: statement.text, old: location(statement) });
+    for (const statement of newLeft) {
+      const change = olds.length > 0 && kind === "statement" ? "duplicated" : "added";
+      items.push({ change, kind, text: statement.text, new: location(statement) });
+    }
+  }
+
+  items.push(...reorderedStatements(pairs.filter(([statement]) => statement.kind === "statement")));
+  return items.sort((a, b) => describeStatementLocation(a).localeCompare(describeStatementLocation(b), undefined, { numeric: true }));
+}
+
+/** `lost statement: app.use(cors())` */
+export function describeStatementItem(item: StatementItem): string {
+  return `${item.change} ${item.kind}: ${item.text}`;
+}
+
+/** `old.ts:3`, `new.ts:5`, or `old.ts:3 → new.ts:5` for reordered statements */
+export function describeStatementLocation(item: StatementItem): string {
+  return [item.old, item.new]
+    .filter((where): where is StatementLocation => where !== undefined)
+    .map(where => `${where.file}:${where.lineno}`)
+    .join(" → ");
+}
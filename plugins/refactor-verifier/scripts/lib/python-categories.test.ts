@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+import { categorizeChange } from "./change-categories";
+import { extractPythonDefinitions } from "./python-extract";
+import { pythonSyntaxTrees } from "./python-categories";
+
+async function classCategories(before: string, after: string, name: string) {
+  const [oldDefs, newDefs] = await extractPythonDefinitions([
+    { file: "a.py", content: before },
+    { file: "a.py", content: after },
+  ]);
+  const [oldTree, newTree] = await pythonSyntaxTrees([oldDefs.classes[name].body, newDefs.classes[name].body]);
+  return categorizeChange(oldTree!, newTree!);
+}
+
+describe("categorizePythonModifications", () => {
+  test("a renamed class member is a structure change on its class, not a literal one", async () => {
+    const before = "class K:\n    a = 1\n    b = 2\n";
+    const after = "class K:\n    c = 1\n    b = 2\n";
+    expect(await classCategories(before, after, "K")).toEqual(["structure"]);
+  });
+});
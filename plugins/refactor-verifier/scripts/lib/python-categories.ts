@@ -0,0 +1,121 @@
+/**
+ * Change categories for Python
+ *
+ * The bodies of modified Python definitions are parsed by a Python
+ * subprocess, which dumps each one as the language-neutral syntax tree that
+ * change-categories.ts diffs. All modified definitions share one run.
+ * Spans are character offsets into each source.
+ */
+
+import { categorizeChange, type SyntaxTree } from "./change-categories";
+import type { ModifiedItem } from "./comparison";
+
+// Python script dumping the syntax tree of each source in a JSON list
+const PYTHON_SYNTAX_DUMPER = `
+import ast
+import json
+import sys
+
+CONTROL_NODES = tuple(
+    getattr(ast, name)
+    for name in ("If", "For", "AsyncFor", "While", "Try", "TryStar", "Return", "Break", "Continue", "Raise", "IfExp", "Match")
+    if hasattr(ast, name)
+)
+OPERATOR_NODES = (ast.operator, ast.unaryop, ast.cmpop, ast.boolop)
+# Fields whose whole subtree counts as a decorator or type change
+CONTEXT_FIELDS = {"decorator_list": "decorator", "annotation": "type", "returns": "type"}
+IGNORED_FIELDS = {"ctx", "type_comment", "kind"}
+
+def leaf(kind, role, text, span):
+    return {"kind": kind, "role": role, "text": text, "span": span, "children": []}
+
+def make_locator(source):
+    """Character offset of an AST (line, UTF-8 byte column) position."""
+    lines = source.split("\\n")
+    starts = [0]
+    for line in lines:
+        starts.append(starts[-1] + len(line) + 1)
+    def locate(lineno, col):
+        return starts[lineno - 1] + len(lines[lineno - 1].encode()[:col].decode(errors="ignore"))
+    return locate
+
+def syntax_tree(node, locate, parent_span):
+    span = parent_span
+    if getattr(node, "end_lineno", None) is not None:
+        span = [locate(node.lineno, node.col_offset), locate(node.end_lineno, node.end_col_offset)]
+    # Operators and names carry no position of their own; they take their parent's
+    if isinstance(node, OPERATOR_NODES):
+        return leaf(type(node).__name__, "operator", type(node).__name__, span)
+    if isinstance(node, ast.Constant):
+        return leaf("Constant", "literal", repr(node.value), span)
+    # __member__('name') stands for a class member compared on its own (see python-extract.ts)
+    if isinstance(node, ast.Expr) and isinstance(node.value, ast.Call) and isinstance(node.value.func, ast.Name) \
+            and node.value.func.id == "__member__" and len(node.value.args) == 1 \
+            and isinstance(node.value.args[0], ast.Constant):
+        return leaf("Placeholder", "placeholder", node.value.args[0].value, span)
+
+    tree = {"kind": type(node).__name__, "span": span, "children": []}
+    if isinstance(node, CONTROL_NODES):
+        tree["role"] = "control"
+    elif isinstance(node, ast.Call):
+        # func comes first, then args and keywords
+        tree["role"] = "call"
+
+    for field, value in ast.iter_fields(node):
+        if field in IGNORED_FIELDS:
+            continue
+        for item in value if isinstance(value, list) else [value]:
+            if item is None:
+                continue
+            if isinstance(item, ast.AST):
+                child = syntax_tree(item, locate, span)
+            elif isinstance(item, str):
+                child = leaf(field, "identifier", item, span)
+            else:
+                child = leaf(field, "literal", repr(item), span)
+            if field in CONTEXT_FIELDS:
+                child = {"kind": field, "role": CONTEXT_FIELDS[field], "span": child["span"], "children": [child]}
+            tree["children"].append(child)
+    return tree
+
+if __name__ == "__main__":
+    trees = []
+    for source in json.load(sys.stdin):
+        try:
+            trees.append(syntax_tree(ast.parse(source), make_locator(source), [0, len(source)]))
+        except SyntaxError:
+            trees.append(None)
+    print(json.dumps(trees))
+`;
+
+/** Syntax trees of Python sources, null for those that don't parse */
+export async function pythonSyntaxTrees(sources: string[]): Promise<Array<SyntaxTree | null>> {
+  const proc = Bun.spawn(["python3", "-c", PYTHON_SYNTAX_DUMPER], {
+    stdin: new Response(JSON.stringify(sources)),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  await proc.exited;
+
+  if (proc.exitCode !== 0) {
+    console.error("Error parsing modified Python definitions:", stderr);
+    return sources.map(() => null);
+  }
+  return JSON.parse(stdout);
+}
+
+/** Sets `categories` on each modified definition whose versions both parse */
+export async function categorizePythonModifications(items: ModifiedItem[]): Promise<void> {
+  const pairs = items.flatMap(item => (item.bodies ? [{ item, bodies: item.bodies }] : []));
+  if (pairs.length === 0) return;
+
+  const trees = await pythonSyntaxTrees(pairs.flatMap(({ bodies }) => [bodies.old, bodies.new]));
+  pairs.forEach(({ item }, i) => {
+    const oldTree = trees[2 * i];
+    const newTree = trees[2 * i + 1];
+    if (oldTree && newTree) item.categories = categorizeChange(oldTree, newTree);
+  });
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { compareModuleStatements, isBenignStatementChange } from "./module-statements";
+import { extractPythonDefinitions } from "./python-extract";
+
+describe("extractPythonDefinitions", () => {
+  test("keeps the member order in the class header's hash", async () => {
+    const [before, after] = await extractPythonDefinitions([
+      { file: "a.py", content: "class K:\n    a = load()\n    b = save()\n" },
+      { file: "a.py", content: "class K:\n    b = save()\n    a = load()\n" },
+    ]);
+    expect(after.assignments["K.a"].body_hash).toBe(before.assignments["K.a"].body_hash);
+    expect(after.classes.K.body_hash).not.toBe(before.classes.K.body_hash);
+    expect(before.classes.K.body).toBe("class K:\n    __member__('a')\n    __member__('b')");
+  });
+
+  test("evaluates parameter defaults and decorators outside the alpha-renamed scope", async () => {
+    const [before, after, renamed] = await extractPythonDefinitions([
+      { file: "a.py", content: "@cache(LIMIT)\ndef f(LIMIT=LIMIT):\n    return LIMIT\n" },
+      { file: "a.py", content: "@cache(OTHER)\ndef f(OTHER=OTHER):\n    return OTHER\n" },
+      { file: "a.py", content: "@cache(LIMIT)\ndef f(other=LIMIT):\n    return other\n" },
+    ]);
+    expect(after.functions.f.alpha_hash).not.toBe(before.functions.f.alpha_hash);
+    expect(renamed.functions.f.alpha_hash).toBe(before.functions.f.alpha_hash);
+  });
+
+  test("keeps decorators in the callable hash that follows a method across classes", async () => {
+    const [before, after] = await extractPythonDefinitions([
+      { file: "a.py", content: "class A:\n    @functools.lru_cache\n    def load(self):\n        return 1\n" },
+      { file: "a.py", content: "class B:\n    def load(self):\n        return 1\n" },
+    ]);
+    expect(after.functions["B.load"].callable_hash).not.toBe(before.functions["A.load"].callable_hash);
+  });
+
+  test("records an import whose names go unused as a side-effect statement", async () => {
+    const [before, after] = await extractPythonDefinitions([
+      { file: "app.py", content: "import json\nimport myapp.signals\nfrom . import handlers\n\ndump = json.dumps\n" },
+      { file: "app.py", content: "import json\n\ndump = json.dumps\n" },
+    ]);
+    expect(before.statements.map(statement => [statement.text, statement.kind])).toEqual([
+      ["import json", "import"],
+      ["import myapp.signals", "statement"],
+      ["from . import handlers", "statement"],
+    ]);
+    const changes = compareModuleStatements(before.statements, after.statements);
+    expect(changes.map(item => [item.change, item.text])).toEqual([
+      ["lost", "import myapp.signals"],
+      ["lost", "from . import handlers"],
+    ]);
+    expect(changes.some(isBenignStatementChange)).toBe(false);
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * Python definition extraction
+ *
+ * A python3 subprocess parses each source with the `ast` module and records
+ * its functions, classes (header and members separately), module- and
+ * class-level assignments, type aliases and module statements, with the
+ * hashes comparison.ts pairs them by. A class header keeps a placeholder
+ * where each member was, so reordering class-body assignments is a change.
+ * One process handles a whole batch of files; when it fails, the files are
+ * retried one by one so a single file that breaks the extractor can't take
+ * the others down with it.
+ */
+
+import type { SourceFile } from "./extraction-cache";
+import type { ModuleStatement } from "./module-statements";
+
+// Python script extracting the definitions of each [filename, source] pair in a JSON list
+const PYTHON_EXTRACTOR = `
+import ast
+import sys
+import copy
+import json
+import hashlib
+
+def normalize_code(node):
+    """Convert AST node back to normalized source code."""
+    return ast.unparse(node)
+
+def sha256(text):
+    return hashlib.sha256(text.encode()).hexdigest()
+
+class AnnotationStripper(ast.NodeTransformer):
+    """Remove type annotations and docstrings, keeping the runtime structure."""
+
+    def strip_docstring(self, node):
+        body = node.body
+        if body and isinstance(body[0], ast.Expr) and isinstance(body[0].value, ast.Constant) \
+                and isinstance(body[0].value.value, str):
+            node.body = body[1:] or [ast.Pass()]
+
+    def visit_FunctionDef(self, node):
+        self.strip_docstring(node)
+        node.returns = None
+        args = node.args
+        for arg in args.posonlyargs + args.args + args.kwonlyargs + [args.vararg, args.kwarg]:
+            if arg:
+                arg.annotation = None
+        self.generic_visit(node)
+        return node
+
+    visit_AsyncFunctionDef = visit_FunctionDef
+
+    def visit_ClassDef(self, node):
+        self.strip_docstring(node)
+        self.generic_visit(node)
+        return node
+
+    def visit_AnnAssign(self, node):
+        # Keep the statement: annotated class attributes are fields for dataclasses
+        node.annotation = ast.Constant(value=Ellipsis)
+        self.generic_visit(node)
+        return node
+
+def strip_annotations(node):
+    return AnnotationStripper().visit(copy.deepcopy(node))
+
+def signature_shape(stripped):
+    """Annotation-free signature: arg list, decorators and async-ness (bases for classes)."""
+    decorators = [ast.unparse(d) for d in stripped.decorator_list]
+    if isinstance(stripped, ast.ClassDef):
+        shape = {
+            "bases": [ast.unparse(b) for b in stripped.bases],
+            "keywords": [ast.unparse(k) for k in stripped.keywords],
+            "decorators": decorators,
+        }
+    else:
+        shape = {
+            "args": ast.unparse(stripped.args),
+            "decorators": decorators,
+            "is_async": isinstance(stripped, ast.AsyncFunctionDef),
+        }
+    return json.dumps(shape, sort_keys=True)
+
+def get_function_signature(node):
+    """Extract function signature details."""
+    args = []
+    for arg in node.args.args:
+        arg_str = arg.arg
+        if arg.annotation:
+            arg_str += f": {ast.unparse(arg.annotation)}"
+        args.append(arg_str)
+
+    if node.args.vararg:
+        arg_str = f"*{node.args.vararg.arg}"
+        if node.args.vararg.annotation:
+            arg_str += f": {ast.unparse(node.args.vararg.annotation)}"
+        args.append(arg_str)
+
+    if node.args.kwarg:
+        arg_str = f"**{node.args.kwarg.arg}"
+        if node.args.kwarg.annotation:
+            arg_str += f": {ast.unparse(node.args.kwarg.annotation)}"
+        args.append(arg_str)
+
+    return_type = ast.unparse(node.returns) if node.returns else None
+
+    return {
+        "args": args,
+        "return_type": return_type,
+        "decorators": [ast.unparse(d) for d in node.decorator_list],
+        "is_async": isinstance(node, ast.AsyncFunctionDef)
+    }
+
+# PEP 695 "type X = ..." statements (Python 3.12+)
+TYPE_ALIAS_NODE = getattr(ast, "TypeAlias", None)
+
+def assigned_names(target):
+    """Names bound by an assignment target, unpacking tuples, lists and starred targets."""
+    if isinstance(target, ast.Name):
+        return [target.id]
+    if isinstance(target, (ast.Tuple, ast.List)):
+        return [name for element in target.elts for name in assigned_names(element)]
+    if isinstance(target, ast.Starred):
+        return assigned_names(target.value)
+    return []
+
+def qualify(container, name):
+    return f"{container}.{name}" if container else name
+
+def callable_shape(node):
+    """Decorators, parameters, return type and body, independent of name and container."""
+    body = ast.Module(body=node.body, type_ignores=[])
+    returns = ast.unparse(node.returns) if node.returns else ""
+    decorators = [ast.unparse(d) for d in node.decorator_list]
+    return json.dumps([isinstance(node, ast.AsyncFunctionDef), decorators, ast.unparse(node.args), returns, ast.unparse(body)])
+
+SCOPE_NODES = (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda, ast.ClassDef)
+COMPREHENSION_NODES = (ast.ListComp, ast.SetComp, ast.DictComp, ast.GeneratorExp)
+
+def scope_nodes(node):
+    """Nodes in a function's own scope, without entering nested functions, classes or comprehensions."""
+    pending = list(ast.iter_child_nodes(node))
+    while pending:
+        child = pending.pop(0)
+        yield child
+        if not isinstance(child, SCOPE_NODES + COMPREHENSION_NODES):
+            pending.extend(ast.iter_child_nodes(child))
+
+class AlphaRenamer(ast.NodeTransformer):
+    """Rename locally bound names to positional placeholders (_0, _1, ...); free names stay."""
+
+    def __init__(self):
+        self.scopes = []
+        self.local_names = []
+
+    def bind(self, scope, name):
+        if name not in scope:
+            scope[name] = f"_{len(self.local_names)}"
+            self.local_names.append(name)
+
+    def resolve(self, name):
+        for scope in reversed(self.scopes):
+            if name in scope:
+                return scope[name]
+        return name
+
+    def visit_scope(self, node, scope):
+        self.scopes.append(scope)
+        self.generic_visit(node)
+        self.scopes.pop()
+        return node
+
+    def visit_FunctionDef(self, node):
+        if self.scopes and not isinstance(node, ast.Lambda):
+            node.name = self.resolve(node.name)
+        args = node.args
+        parameters = [arg for arg in args.posonlyargs + args.args + [args.vararg] + args.kwonlyargs + [args.kwarg] if arg]
+        # Decorators, defaults and annotations are evaluated where the function is defined
+        outer = getattr(node, "decorator_list", []) + args.defaults + [d for d in args.kw_defaults if d]
+        outer += [arg.annotation for arg in parameters if arg.annotation]
+        if getattr(node, "returns", None):
+            outer.append(node.returns)
+        for child in outer:
+            self.visit(child)
+        scope = {}
+        for arg in parameters:
+            self.bind(scope, arg.arg)
+        if not isinstance(node, ast.Lambda):
+            declared = set()
+            for child in scope_nodes(node):
+                if isinstance(child, (ast.Global, ast.Nonlocal)):
+                    declared.update(child.names)
+            for child in scope_nodes(node):
+                if isinstance(child, ast.Name) and not isinstance(child.ctx, ast.Load):
+                    name = child.id
+                elif isinstance(child, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+                    name = child.name
+                elif isinstance(child, ast.ExceptHandler) and child.name:
+                    name = child.name
+                else:
+                    continue
+                if name not in declared:
+                    self.bind(scope, name)
+        self.scopes.append(scope)
+        for arg in parameters:
+            arg.arg = self.resolve(arg.arg)
+        if isinstance(node, ast.Lambda):
+            node.body = self.visit(node.body)
+        else:
+            node.body = [self.visit(statement) for statement in node.body]
+        self.scopes.pop()
+        return node
+
+    visit_AsyncFunctionDef = visit_FunctionDef
+    visit_Lambda = visit_FunctionDef
+
+    def visit_comprehension_scope(self, node):
+        scope = {}
+        for generator in node.generators:
+            for target in ast.walk(generator.target):
+                if isinstance(target, ast.Name):
+                    self.bind(scope, target.id)
+        return self.visit_scope(node, scope)
+
+    visit_ListComp = visit_SetComp = visit_DictComp = visit_GeneratorExp = visit_comprehension_scope
+
+    def visit_ClassDef(self, node):
+        if self.scopes:
+            node.name = self.resolve(node.name)
+        self.generic_visit(node)
+        return node
+
+    def visit_Name(self, node):
+        node.id = self.resolve(node.id)
+        return node
+
+    def visit_ExceptHandler(self, node):
+        if node.name:
+            node.name = self.resolve(node.name)
+        self.generic_visit(node)
+        return node
+
+def alpha_canonical(node):
+    """Unparsed function with locals renamed positionally, and the original local names."""
+    renamer = AlphaRenamer()
+    canonical = renamer.visit(copy.deepcopy(node))
+    return normalize_code(canonical), renamer.local_names
+
+# Stands for a definition's own name; SELF_PLACEHOLDER in renames.ts
+SELF_PLACEHOLDER = "<self>"
+
+class SelfRenamer(ast.NodeTransformer):
+    """Replace the names referring to one definition; attributes and strings keep their text."""
+
+    def __init__(self, name):
+        self.name = name
+
+    def visit_Name(self, node):
+        if node.id == self.name:
+            node.id = SELF_PLACEHOLDER
+        return node
+
+def anonymize(node, name):
+    """Unparsed definition with its own name, declaration included, replaced by a placeholder."""
+    renamed = SelfRenamer(name).visit(copy.deepcopy(node))
+    if getattr(renamed, "name", None) == name:
+        renamed.name = SELF_PLACEHOLDER
+    return normalize_code(renamed)
+
+def is_member(node):
+    """Class-body statements extracted as their own entries."""
+    if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+        return True
+    if isinstance(node, ast.Assign):
+        return any(assigned_names(target) for target in node.targets)
+    return isinstance(node, ast.AnnAssign) and isinstance(node.target, ast.Name)
+
+def line_span(node):
+    """First and last line of a statement, decorators included."""
+    decorators = getattr(node, "decorator_list", [])
+    return [min([node.lineno] + [d.lineno for d in decorators]), node.end_lineno]
+
+def member_placeholder(node):
+    """Stands in for a member in its class header: __member__('name')."""
+    if isinstance(node, ast.Assign):
+        names = [name for target in node.targets for name in assigned_names(target)]
+    elif isinstance(node, ast.AnnAssign):
+        names = [node.target.id]
+    else:
+        names = [node.name]
+    call = ast.Call(func=ast.Name(id="__member__", ctx=ast.Load()), args=[ast.Constant(value=", ".join(names))], keywords=[])
+    return ast.Expr(value=call)
+
+def class_header(node):
+    """The class with each member replaced by a placeholder: decorators, bases, docstring,
+    other statements and the member order, as class-body assignments run in source order."""
+    header = copy.copy(node)
+    header.body = [member_placeholder(stmt) if is_member(stmt) else stmt for stmt in node.body]
+    return header
+
+def extract_statement(node, container, filename, definitions):
+    """Record one module- or class-level statement; classes recurse into their members."""
+    if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+        body = normalize_code(node)
+        sig = get_function_signature(node)
+        stripped = strip_annotations(node)
+        alpha, local_names = alpha_canonical(node)
+        definitions["functions"][qualify(container, node.name)] = {
+            "signature": sig,
+            "body_hash": sha256(body),
+            "stripped_hash": sha256(normalize_code(stripped)),
+            "signature_hash": sha256(signature_shape(stripped)),
+            "callable_hash": sha256(callable_shape(node)),
+            "alpha_hash": sha256(alpha),
+            "local_names": local_names,
+            "body": body,
+            "anonymized": anonymize(node, node.name),
+            "container": container,
+            "file": filename,
+            "lineno": node.lineno,
+            "lines": line_span(node)
+        }
+
+    elif isinstance(node, ast.ClassDef):
+        name = qualify(container, node.name)
+        header = class_header(node)
+        body = normalize_code(header)
+        bases = [ast.unparse(b) for b in node.bases]
+        stripped = strip_annotations(header)
+        definitions["classes"][name] = {
+            "bases": bases,
+            "decorators": [ast.unparse(d) for d in node.decorator_list],
+            "body_hash": sha256(body),
+            "stripped_hash": sha256(normalize_code(stripped)),
+            "signature_hash": sha256(signature_shape(stripped)),
+            "body": body,
+            "anonymized": anonymize(header, node.name),
+            "container": container,
+            "file": filename,
+            "lineno": node.lineno,
+            "lines": line_span(node)
+        }
+        for member in node.body:
+            if is_member(member):
+                extract_statement(member, name, filename, definitions)
+
+    elif isinstance(node, ast.Assign):
+        body = normalize_code(node)
+        value = normalize_code(node.value)
+        for target in node.targets:
+            for name in assigned_names(target):
+                definitions["assignments"][qualify(container, name)] = {
+                    "annotation": None,
+                    "value": value,
+                    "body_hash": sha256(body),
+                    "stripped_hash": sha256(body),
+                    "body": body,
+                    "anonymized": anonymize(node, name),
+                    "container": container,
+                    "file": filename,
+                    "lineno": node.lineno,
+                    "lines": line_span(node)
+                }
+
+    elif isinstance(node, ast.AnnAssign) and isinstance(node.target, ast.Name):
+        body = normalize_code(node)
+        annotation = ast.unparse(node.annotation)
+        bucket = "type_aliases" if annotation in ("TypeAlias", "typing.TypeAlias") else "assignments"
+        definitions[bucket][qualify(container, node.target.id)] = {
+            "annotation": annotation,
+            "value": normalize_code(node.value) if node.value else None,
+            "body_hash": sha256(body),
+            "stripped_hash": sha256(normalize_code(strip_annotations(node))),
+            "body": body,
+            "anonymized": anonymize(node, node.target.id),
+            "container": container,
+            "file": filename,
+            "lineno": node.lineno,
+            "lines": line_span(node)
+        }
+
+    elif TYPE_ALIAS_NODE is not None and isinstance(node, TYPE_ALIAS_NODE):
+        body = normalize_code(node)
+        definitions["type_aliases"][qualify(container, node.name.id)] = {
+            "annotation": None,
+            "value": normalize_code(node.value),
+            "body_hash": sha256(body),
+            "stripped_hash": sha256(body),
+            "body": body,
+            "anonymized": anonymize(node, node.name.id),
+            "container": container,
+            "file": filename,
+            "lineno": node.lineno,
+            "lines": line_span(node)
+        }
+
+def is_docstring(node):
+    return isinstance(node, ast.Expr) and isinstance(node.value, ast.Constant) and isinstance(node.value.value, str)
+
+def imported_names(node):
+    """Names an import binds; None for a star import."""
+    names = []
+    for alias in node.names:
+        if alias.name == "*":
+            return None
+        names.append(alias.asname or alias.name.split(".")[0])
+    return names
+
+def module_statement_kind(node, index, filename, used_names):
+    """Kind of a module-level statement that is not a definition; None for definitions."""
+    if isinstance(node, (ast.Import, ast.ImportFrom)):
+        # A package's imports are what it exports
+        if filename.endswith("__init__.py"):
+            return "reexport"
+        # Importing runs the module: one whose names go unused is there for its side effects
+        names = imported_names(node)
+        if names is not None and not any(name in used_names for name in names):
+            return "statement"
+        return "import"
+    if is_member(node) or (TYPE_ALIAS_NODE is not None and isinstance(node, TYPE_ALIAS_NODE)):
+        return None
+    if index == 0 and is_docstring(node):
+        return None
+    return "statement"
+
+def module_statements(tree, filename):
+    """Imports and side effects at module level, in source order."""
+    statements = []
+    used_names = {node.id for node in ast.walk(tree) if isinstance(node, ast.Name)}
+    for index, node in enumerate(tree.body):
+        kind = module_statement_kind(node, index, filename, used_names)
+        if kind:
+            code = normalize_code(node)
+            statements.append({
+                "kind": kind,
+                "hash": sha256(code),
+                "text": code.split("\\n")[0],
+                "file": filename,
+                "lineno": node.lineno,
+                "lines": line_span(node)
+            })
+    return statements
+
+def extract_definitions(source_code, filename=""):
+    """Extract all definitions from Python source code."""
+    try:
+        tree = ast.parse(source_code)
+    except SyntaxError as e:
+        return {"error": f"Syntax error in {filename}: {e}"}
+
+    definitions = {
+        "functions": {},
+        "classes": {},
+        "assignments": {},
+        "type_aliases": {}
+    }
+
+    for node in tree.body:
+        extract_statement(node, None, filename, definitions)
+    definitions["statements"] = module_statements(tree, filename)
+    docstring = tree.body[0] if tree.body and is_docstring(tree.body[0]) else None
+    definitions["docstring_lines"] = line_span(docstring) if docstring else None
+
+    return definitions
+
+if __name__ == "__main__":
+    # A JSON list of [filename, source] pairs; one result per file, in order
+    results = []
+    for filename, source in json.load(sys.stdin):
+        try:
+            results.append(extract_definitions(source, filename))
+        except Exception as e:
+            results.append({"error": f"Error processing {filename}: {e!r}"})
+    print(json.dumps(results))
+`;
+
+export interface FunctionDef {
+  signature: {
+    args: string[];
+    return_type: string | null;
+    decorators: string[];
+    is_async: boolean;
+  };
+  body_hash: string;
+  /** Hash with type annotations and docstrings removed */
+  stripped_hash: string;
+  /** Hash of the annotation-free arg list, decorators and async-ness */
+  signature_hash: string;
+  /** Hash of the parameters and body alone, used to follow methods across containers */
+  callable_hash: string;
+  /** Hash with locals renamed to positional placeholders */
+  alpha_hash: string;
+  local_names: string[];
+  body: string;
+  /** Body with the function's own name replaced by a placeholder, for rename detection */
+  anonymized: string;
+  /** Qualified name of the enclosing class, null at module level */
+  container: string | null;
+  file: string;
+  lineno: number;
+  /** First and last line, decorators included */
+  lines: [number, number];
+}
+
+export interface ClassDef {
+  bases: string[];
+  decorators: string[];
+  body_hash: string;
+  stripped_hash: string;
+  /** Hash of the bases, class keywords and decorators */
+  signature_hash: string;
+  /** Class header: the members, which are entries of their own, are placeholders in source order */
+  body: string;
+  anonymized: string;
+  container: string | null;
+  file: string;
+  lineno: number;
+  /** First and last line, decorators included */
+  lines: [number, number];
+}
+
+/** Module- or class-level assignment or type alias; tuple unpacking yields one per bound name */
+export interface AssignmentDef {
+  annotation: string | null;
+  value: string | null;
+  /** Hash of the whole statement */
+  body_hash: string;
+  stripped_hash: string;
+  body: string;
+  anonymized: string;
+  container: string | null;
+  file: string;
+  lineno: number;
+  /** First and last line, decorators included */
+  lines: [number, number];
+}
+
+export interface PythonDefinitions {
+  functions: Record<string, FunctionDef>;
+  classes: Record<string, ClassDef>;
+  assignments: Record<string, AssignmentDef>;
+  type_aliases: Record<string, AssignmentDef>;
+  /** Module-level imports and side effects, in source order */
+  statements: ModuleStatement[];
+  /** Lines of the module docstring, if any */
+  docstring_lines?: [number, number] | null;
+  error?: string;
+}
+
+/** Extractor source and Python version, for extractorVersion() */
+export function pythonExtractorSource(): string[] {
+  return [PYTHON_EXTRACTOR, Bun.spawnSync(["python3", "--version"]).stdout.toString()];
+}
+
+function failedExtraction(error: string): PythonDefinitions {
+  return { functions: {}, classes: {}, assignments: {}, type_aliases: {}, statements: [], error };
+}
+
+/** One python3 run over the batch: a result per source, or why the run failed */
+async function runExtractor(sources: SourceFile[]): Promise<PythonDefinitions[] | string> {
+  const proc = Bun.spawn(["python3", "-c", PYTHON_EXTRACTOR], {
+    stdin: new Response(JSON.stringify(sources.map(source => [source.file, source.content]))),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  await proc.exited;
+
+  if (proc.exitCode !== 0) return stderr.trim() || `python3 exited with code ${proc.exitCode}`;
+  try {
+    const results: unknown = JSON.parse(stdout);
+    if (Array.isArray(results) && results.length === sources.length) return results as PythonDefinitions[];
+    return `expected ${sources.length} results from the extractor`;
+  } catch {
+    return "the extractor's output is not valid JSON";
+  }
+}
+
+/**
+ * Definitions of each source, in order, extracted by one python3 process.
+ * Files that can't be extracted, even on their own, come back with `error` set.
+ */
+export async function extractPythonDefinitions(sources: SourceFile[]): Promise<PythonDefinitions[]> {
+  if (sources.length === 0) return [];
+  const results = await runExtractor(sources);
+  if (typeof results !== "string") return results;
+  if (sources.length === 1) return [failedExtraction(`Error processing ${sources[0].file}: ${results}`)];
+
+  const retried: PythonDefinitions[] = [];
+  for (const source of sources) retried.push(...(await extractPythonDefinitions([source])));
+  return retried;
+}
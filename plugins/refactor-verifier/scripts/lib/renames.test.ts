@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { compareEntries } from "./comparison";
+import { collectPythonEntries, collectTSEntries } from "./extraction";
+import { extractPythonDefinitions } from "./python-extract";
+import { substituteIdentifier } from "./renames";
+import { extractTSDefinitions } from "./typescript-extract";
+
+function tsEntries(code: string) {
+  return collectTSEntries([extractTSDefinitions(code, "a.ts", { scope: "top-level" })]);
+}
+
+async function pythonEntries(code: string) {
+  return collectPythonEntries(await extractPythonDefinitions([{ file: "a.py", content: code }]));
+}
+
+describe("substituteIdentifier", () => {
+  test("renames the declaration and self-references, not properties or strings", () => {
+    const code = "function save(store) { return store.save(`save ${save.length}`, 'save'); }";
+    expect(substituteIdentifier(code, "save", "persist", "a.ts")).toBe(
+      "function persist(store) { return store.save(`save ${persist.length}`, 'save'); }"
+    );
+  });
+
+  test("renames a class member's own name but not this.member calls", () => {
+    const code = "save(n: number) { return n && this.save(n - 1); }";
+    expect(substituteIdentifier(code, "save", "persist", "a.ts", "class")).toBe(
+      "persist(n: number) { return n && this.save(n - 1); }"
+    );
+  });
+
+  test("keeps the key of a shorthand property", () => {
+    expect(substituteIdentifier("const save = () => ({ save });", "save", "persist", "a.ts")).toBe(
+      "const persist = () => ({ save: persist });"
+    );
+  });
+});
+
+describe("detectRenames", () => {
+  test("TypeScript: a body whose properties and strings also changed is not a rename", () => {
+    const result = compareEntries(
+      tsEntries('function save(store) { return store.save("save"); }'),
+      tsEntries('function persist(store) { return store.persist("persist"); }')
+    );
+    expect(result.renamed).toHaveLength(0);
+    expect(result.removed.map(item => item.name)).toEqual(["save"]);
+  });
+
+  test("TypeScript: a recursive function renamed with its self-calls is a rename", () => {
+    const result = compareEntries(
+      tsEntries("function walk(n) { return n && walk(n - 1); }"),
+      tsEntries("function visit(n) { return n && visit(n - 1); }")
+    );
+    expect(result.renamed.map(item => [item.oldName, item.name, item.confidence])).toEqual([["walk", "visit", "high"]]);
+  });
+
+  test("Python: attributes and string constants are not renamed", async () => {
+    const result = compareEntries(
+      await pythonEntries('def save(store):\n    return store.save("save")\n'),
+      await pythonEntries('def persist(store):\n    return store.persist("persist")\n')
+    );
+    expect(result.renamed).toHaveLength(0);
+  });
+
+  test("Python: a recursive function renamed with its self-calls is a rename", async () => {
+    const result = compareEntries(
+      await pythonEntries("def walk(n):\n    return n and walk(n - 1)\n"),
+      await pythonEntries("def visit(n):\n    return n and visit(n - 1)\n")
+    );
+    expect(result.renamed.map(item => [item.oldName, item.name])).toEqual([["walk", "visit"]]);
+  });
+});
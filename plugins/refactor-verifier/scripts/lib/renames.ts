@@ -0,0 +1,149 @@
+/**
+ * Rename detection
+ *
+ * A removed and an added definition of the same kind are a rename when their
+ * normalized bodies are equal once the identifiers naming the definition itself
+ * (declaration and recursive self-calls alike) are replaced by a placeholder.
+ * Property names, attributes and string contents keep their text: renaming
+ * `save` leaves `store.save("save")` alone. Explicit `old=new` mappings cover
+ * what the heuristic can't resolve.
+ */
+
+import ts from "typescript";
+import { selfReferences } from "./typescript-alpha";
+
+/** Stands for a definition's own name in `anonymized` bodies; not an identifier in either language */
+export const SELF_PLACEHOLDER = "<self>";
+
+/**
+ * - explicit: mapping supplied by the user
+ * - high:     the only candidate on both sides
+ * - low:      several bodies matched; paired in source order
+ */
+export type RenameConfidence = "explicit" | "high" | "low";
+
+export interface RenameCandidate {
+  name: string;
+  kind: string;
+  /** Normalized body with the definition's own name replaced by SELF_PLACEHOLDER */
+  anonymized: string;
+}
+
+export interface RenamePair<T extends RenameCandidate> {
+  old: T;
+  new: T;
+  confidence: RenameConfidence;
+  /** False only for explicit mappings whose body also changed */
+  bodyIdentical: boolean;
+}
+
+/**
+ * TypeScript source of a definition with the identifiers naming it renamed
+ * from `from` to `to`; property names, strings and templates are untouched.
+ * Class members are parsed inside an empty class.
+ */
+export function substituteIdentifier(
+  code: string,
+  from: string,
+  to: string,
+  filename: string,
+  containerKind?: string
+): string {
+  const prefix = containerKind === "class" ? "class __Container {\n" : "";
+  const suffix = containerKind === "class" ? "\n}" : "";
+  const kind = filename.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(filename, prefix + code + suffix, ts.ScriptTarget.Latest, true, kind);
+  const [first] = sourceFile.statements;
+  const definition = prefix && first && ts.isClassDeclaration(first) ? first.members[0] : first;
+  const declarationName = definition && ts.getNameOfDeclaration(definition as ts.Declaration);
+  const replacements = [...selfReferences(sourceFile, sourceFile, from, declarationName, to)].sort((a, b) => a[0] - b[0]);
+
+  let text = "";
+  let position = prefix.length;
+  for (const [start, replacement] of replacements) {
+    text += sourceFile.text.slice(position, start) + replacement;
+    position = start + from.length;
+  }
+  return text + sourceFile.text.slice(position, prefix.length + code.length);
+}
+
+/** A definition's source with its own name renamed, to diff it against its renamed version */
+export function renamedBody(
+  entry: { name: string; file: string; body: string; anonymized: string; containerKind?: string },
+  to: string
+): string {
+  // Python bodies are unparsed from the tree, so their anonymized form has the same layout
+  if (entry.file.endsWith(".py")) return entry.anonymized.replaceAll(SELF_PLACEHOLDER, to);
+  return substituteIdentifier(entry.body, localName(entry.name), to, entry.file, entry.containerKind);
+}
+
+/** Parses `old=new` specs (comma-separated, repeatable) into a mapping */
+export function parseRenameSpecs(specs: string[]): Record<string, string> {
+  const renames: Record<string, string> = {};
+  for (const spec of specs.flatMap(s => s.split(","))) {
+    const trimmed = spec.trim();
+    if (!trimmed) continue;
+    const separator = trimmed.indexOf("=");
+    const from = trimmed.slice(0, separator).trim();
+    const to = trimmed.slice(separator + 1).trim();
+    if (separator === -1 || !from || !to) {
+      throw new Error(`Invalid rename "${spec}", expected <old>=<new>`);
+    }
+    renames[from] = to;
+  }
+  return renames;
+}
+
+/** Members are named `Container.member`; only the last segment appears in the body */
+export function localName(name: string): string {
+  return name.slice(name.lastIndexOf(".") + 1);
+}
+
+function isRenameOf(oldDef: RenameCandidate, newDef: RenameCandidate): boolean {
+  return oldDef.anonymized === newDef.anonymized;
+}
+
+/**
+ * Pairs removed and added definitions that are renames of each other.
+ * Returned pairs are removed from neither input; callers filter them out.
+ */
+export function detectRenames<T extends RenameCandidate>(
+  removed: T[],
+  added: T[],
+  explicit: Record<string, string> = {}
+): RenamePair<T>[] {
+  const pairs: RenamePair<T>[] = [];
+  const oldLeft = new Set(removed);
+  const newLeft = new Set(added);
+
+  for (const [from, to] of Object.entries(explicit)) {
+    for (const oldDef of oldLeft) {
+      if (oldDef.name !== from) continue;
+      const newDef = [...newLeft].find(d => d.name === to && d.kind === oldDef.kind);
+      if (!newDef) continue;
+      oldLeft.delete(oldDef);
+      newLeft.delete(newDef);
+      pairs.push({ old: oldDef, new: newDef, confidence: "explicit", bodyIdentical: isRenameOf(oldDef, newDef) });
+    }
+  }
+
+  const candidates = new Map<T, T[]>();
+  for (const oldDef of oldLeft) {
+    const matches = [...newLeft].filter(d => d.kind === oldDef.kind && d.name !== oldDef.name && isRenameOf(oldDef, d));
+    if (matches.length > 0) candidates.set(oldDef, matches);
+  }
+
+  const matchCount = (newDef: T) => [...candidates.values()].filter(list => list.includes(newDef)).length;
+
+  for (const [oldDef, matches] of candidates) {
+    const available = matches.filter(d => newLeft.has(d));
+    if (available.length === 0) continue;
+    const newDef = available[0];
+    const unique = matches.length === 1 && matchCount(newDef) === 1;
+    oldLeft.delete(oldDef);
+    newLeft.delete(newDef);
+    pairs.push({ old: oldDef, new: newDef, confidence: unique ? "high" : "low", bodyIdentical: true });
+  }
+
+  return pairs;
+}
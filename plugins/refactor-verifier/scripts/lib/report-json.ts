@@ -0,0 +1,200 @@
+/**
+ * JSON reporter
+ *
+ * Serialises a VerificationReport into a stable, versioned document for CI
+ * bots and other tooling. Bump JSON_REPORT_SCHEMA_VERSION on any breaking
+ * change to the shape below; adding optional fields is not breaking.
+ */
+
+import type { ApiSurfaceDiff } from "./api-surface";
+import type { BisectResult } from "./bisect";
+import type { ChangeCategory, ChangeMode, DifferenceKind } from "./cli";
+import type { PathOverride } from "./config";
+import type { FileCoverage } from "./coverage";
+import type { ExtractionError } from "./extraction";
+import type { IntegrityIssue } from "./integrity";
+import type { StatementItem } from "./module-statements";
+import type { TimingReport } from "./timings";
+import type {
+  AmbiguousItem,
+  ComparisonItem,
+  ComparisonResult,
+  DefinitionLocation,
+  ModifiedItem,
+  RenamedItem,
+  VerificationReport,
+} from "./comparison";
+
+export const JSON_REPORT_SCHEMA_VERSION = 2;
+
+interface JsonItem {
+  key: string;
+  name: string;
+  kind: string;
+  old: DefinitionLocation | null;
+  new: DefinitionLocation | null;
+  reason?: string;
+  oldKey?: string;
+  oldName?: string;
+  confidence?: string;
+  classification?: string;
+  localRenames?: Record<string, string>;
+  categories?: string[];
+  /** A matching waiver approved the change, or a later edit invalidated it */
+  waiver?: { status: "approved" | "invalidated"; reason: string; approver: string };
+}
+
+interface JsonAmbiguousItem {
+  key: string;
+  name: string;
+  kind: string;
+  reason: string;
+  old: DefinitionLocation[];
+  new: DefinitionLocation[];
+}
+
+interface JsonLanguageReport {
+  identical: boolean;
+  counts: {
+    removed: number;
+    added: number;
+    modified: number;
+    moved: number;
+    renamed: number;
+    ambiguous: number;
+    matching: number;
+    statements: number;
+  };
+  removed: JsonItem[];
+  added: JsonItem[];
+  modified: JsonItem[];
+  moved: JsonItem[];
+  renamed: JsonItem[];
+  ambiguous: JsonAmbiguousItem[];
+  matching: JsonItem[];
+  /** Module statements lost, duplicated, added or reordered */
+  statements: StatementItem[];
+}
+
+export interface JsonReport {
+  schemaVersion: number;
+  tool: "refactor-verifier";
+  refs: { base: string; head: string | null; mode: ChangeMode };
+  /** Config file the verification policy was read from */
+  config: string | null;
+  files: { python: string[]; typescript: string[] };
+  languages: {
+    python: JsonLanguageReport | null;
+    typescript: JsonLanguageReport | null;
+  };
+  /** Changed files whose definitions could not be extracted, on either side */
+  extractionErrors: ExtractionError[];
+  /** Import integrity issues; empty unless `--check-imports` was given */
+  integrity: IntegrityIssue[];
+  /** Exported API differences per entry point; empty unless `--api-surface` was given */
+  api: ApiSurfaceDiff[];
+  /** Line coverage of each old file; empty unless `--coverage` was given */
+  coverage: FileCoverage[];
+  /** Commits of the range and the commit that first changed each difference; null unless `--bisect` was given */
+  bisect: BisectResult | null;
+  /** Milliseconds per phase and extraction cache hits; null unless `--timings` was given */
+  timings: TimingReport | null;
+  verdict: {
+    passed: boolean;
+    status: "passed" | "failed";
+    warnings: string[];
+    /** Change categories that fail the verdict; null when every modification does */
+    blocking: ChangeCategory[] | null;
+    /** Differences that pass with a warning */
+    allow: DifferenceKind[];
+    /** Per-path `allow`/`blocking` settings from the config */
+    overrides: PathOverride[];
+  };
+}
+
+type ReportableItem = ComparisonItem &
+  Partial<Pick<RenamedItem, "oldKey" | "oldName" | "confidence">> &
+  Partial<Pick<ModifiedItem, "reason" | "classification" | "localRenames" | "categories" | "waiver" | "staleWaiver">>;
+
+function toJsonItem(item: ReportableItem): JsonItem {
+  const json: JsonItem = {
+    key: item.key,
+    name: item.name,
+    kind: item.kind,
+    old: item.old ?? null,
+    new: item.new ?? null,
+  };
+  if (item.reason) json.reason = item.reason;
+  if (item.oldKey) json.oldKey = item.oldKey;
+  if (item.oldName) json.oldName = item.oldName;
+  if (item.confidence) json.confidence = item.confidence;
+  if (item.classification) json.classification = item.classification;
+  if (item.localRenames) json.localRenames = item.localRenames;
+  if (item.categories) json.categories = item.categories;
+  const waiver = item.waiver ?? item.staleWaiver;
+  if (waiver) {
+    json.waiver = { status: item.waiver ? "approved" : "invalidated", reason: waiver.reason, approver: waiver.approver };
+  }
+  return json;
+}
+
+function toJsonAmbiguousItem(item: AmbiguousItem): JsonAmbiguousItem {
+  return { key: item.key, name: item.name, kind: item.kind, reason: item.reason, old: item.old, new: item.new };
+}
+
+function toJsonLanguage(comparison: ComparisonResult | null): JsonLanguageReport | null {
+  if (!comparison) return null;
+  return {
+    identical: comparison.identical,
+    counts: {
+      removed: comparison.removed.length,
+      added: comparison.added.length,
+      modified: comparison.modified.length,
+      moved: comparison.moved.length,
+      renamed: comparison.renamed.length,
+      ambiguous: comparison.ambiguous.length,
+      matching: comparison.matching.length,
+      statements: comparison.statements.length,
+    },
+    removed: comparison.removed.map(toJsonItem),
+    added: comparison.added.map(toJsonItem),
+    modified: comparison.modified.map(toJsonItem),
+    moved: comparison.moved.map(toJsonItem),
+    renamed: comparison.renamed.map(toJsonItem),
+    ambiguous: comparison.ambiguous.map(toJsonAmbiguousItem),
+    matching: comparison.matching.map(toJsonItem),
+    statements: comparison.statements,
+  };
+}
+
+export function buildJsonReport(report: VerificationReport): JsonReport {
+  return {
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    tool: "refactor-verifier",
+    refs: { base: report.range.base, head: report.range.head ?? null, mode: report.range.mode },
+    config: report.configFile ?? null,
+    files: report.files,
+    languages: {
+      python: toJsonLanguage(report.python),
+      typescript: toJsonLanguage(report.typescript),
+    },
+    extractionErrors: report.extractionErrors,
+    integrity: report.integrity,
+    api: report.api,
+    coverage: report.coverage,
+    bisect: report.bisect ?? null,
+    timings: report.timings ?? null,
+    verdict: {
+      passed: report.passed,
+      status: report.passed ? "passed" : "failed",
+      warnings: report.warnings,
+      blocking: report.policy.blocking ?? null,
+      allow: report.policy.allow,
+      overrides: report.policy.overrides,
+    },
+  };
+}
+
+export function formatJsonReport(report: VerificationReport): string {
+  return JSON.stringify(buildJsonReport(report), null, 2);
+}
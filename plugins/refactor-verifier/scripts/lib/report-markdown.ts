@@ -0,0 +1,285 @@
+/**
+ * Markdown reporter
+ *
+ * Renders a PR comment: verdict headline, a counts table, and one
+ * collapsible section per language with the removed/added/modified
+ * definitions. Modified definitions embed the same diff the detailed
+ * script prints.
+ */
+
+import { hasApiDifferences, type ApiSurfaceDiff } from "./api-surface";
+import { describeCommit, describeCounts, type BisectResult } from "./bisect";
+import {
+  describeCategories,
+  describeClassification,
+  describeItem,
+  evaluateComparison,
+  formatLocation as formatPlainLocation,
+  type ComparisonItem,
+  type ComparisonResult,
+  type DefinitionLocation,
+  type ModifiedItem,
+  type VerificationReport,
+} from "./comparison";
+import type { VerificationPolicy } from "./config";
+import { describeLineRange, type FileCoverage } from "./coverage";
+import { formatLineDiff } from "./diff";
+import { describeExtractionError, type ExtractionError } from "./extraction";
+import { describeChangeMode, describeHead } from "./git";
+import type { IntegrityIssue } from "./integrity";
+import { describeStatementItem, describeStatementLocation } from "./module-statements";
+import { describeWaiver } from "./waivers";
+
+const COUNT_COLUMNS: Array<[string, (comparison: ComparisonResult) => number]> = [
+  ["Removed", c => c.removed.length],
+  ["Added", c => c.added.length],
+  ["Modified", c => c.modified.length],
+  ["Ambiguous", c => c.ambiguous.length],
+  ["Renamed", c => c.renamed.length],
+  ["Moved", c => c.moved.length],
+  ["Matching", c => c.matching.length],
+  ["Statements", c => c.statements.length],
+];
+
+function formatLocation(location: DefinitionLocation | undefined): string {
+  return location ? `\`${formatPlainLocation(location)}\`` : "";
+}
+
+function formatItem(item: Pick<ComparisonItem, "key" | "kind" | "name">): string {
+  return `\`${describeItem(item)}\``;
+}
+
+function formatDiff(item: ModifiedItem): string[] {
+  if (!item.bodies) return [];
+  // formatLineDiff indents every line by two spaces; drop them so the fence highlights as a diff
+  const diff = formatLineDiff(item.bodies.old.trim(), item.bodies.new.trim())
+    .split("\n")
+    .map(line => line.slice(2))
+    .join("\n");
+  return ["", "```diff", diff, "```"];
+}
+
+function formatLanguage(label: string, comparison: ComparisonResult, policy: VerificationPolicy): string[] {
+  const lines: string[] = [];
+  const verdict = evaluateComparison(comparison, label, policy);
+  const status = !verdict.passed ? "❌" : verdict.warnings.length > 0 ? "⚠️" : "✅";
+  lines.push(
+    "<details>",
+    `<summary>${status} <b>${label}</b>: ${comparison.removed.length} removed, ${comparison.added.length} added, ` +
+      `${comparison.modified.length} modified, ${comparison.ambiguous.length} ambiguous, ` +
+      `${comparison.renamed.length} renamed, ${comparison.moved.length} moved, ` +
+      `${comparison.matching.length} matching</summary>`,
+    ""
+  );
+
+  if (comparison.removed.length > 0) {
+    lines.push("#### ❌ Removed", "");
+    for (const item of comparison.removed) {
+      lines.push(`- ${formatItem(item)} (was ${formatLocation(item.old)})`);
+    }
+    lines.push("");
+  }
+
+  if (comparison.added.length > 0) {
+    lines.push("#### ➕ Added", "");
+    for (const item of comparison.added) {
+      lines.push(`- ${formatItem(item)} at ${formatLocation(item.new)}`);
+    }
+    lines.push("");
+  }
+
+  if (comparison.modified.length > 0) {
+    lines.push("#### ⚠️ Modified", "");
+    for (const item of comparison.modified) {
+      lines.push(
+        "<details>",
+        `<summary><code>${describeItem(item)}</code> ${item.reason}` +
+          `${item.classification ? ` (<b>${describeClassification(item)}</b>)` : ""}` +
+          `${describeCategories(item) ? ` [${describeCategories(item)}]` : ""}` +
+          `${item.waiver ? ` ✅ ${describeWaiver(item.waiver)}` : ""}` +
+          `${item.staleWaiver ? " ⚠️ waiver invalidated by a later edit" : ""}: ` +
+          `<code>${formatPlainLocation(item.old)}</code> → <code>${formatPlainLocation(item.new)}</code></summary>`,
+        ...formatDiff(item),
+        "",
+        "</details>",
+        ""
+      );
+    }
+  }
+
+  if (comparison.ambiguous.length > 0) {
+    lines.push("#### ❓ Ambiguous", "");
+    for (const item of comparison.ambiguous) {
+      lines.push(
+        `- ${formatItem(item)}: ${item.reason}. Old: ${item.old.map(formatLocation).join(", ")}; ` +
+          `new: ${item.new.map(formatLocation).join(", ")}`
+      );
+    }
+    lines.push("");
+  }
+
+  if (comparison.statements.length > 0) {
+    lines.push("#### 📜 Module statements", "");
+    for (const item of comparison.statements) {
+      lines.push(`- \`${describeStatementItem(item)}\` at \`${describeStatementLocation(item)}\``);
+    }
+    lines.push("");
+  }
+
+  if (comparison.renamed.length > 0) {
+    lines.push("#### 📝 Renamed (body identical apart from the name)", "");
+    for (const item of comparison.renamed) {
+      lines.push(
+        `- \`${item.kind}: ${item.oldName}\` → \`${item.name}\` (${item.confidence} confidence), ` +
+          `${formatLocation(item.old)} → ${formatLocation(item.new)}`
+      );
+    }
+    lines.push("");
+  }
+
+  if (comparison.moved.length > 0) {
+    lines.push("#### 🚚 Moved (body identical)", "");
+    for (const item of comparison.moved) {
+      const from = item.oldKey ? `\`${item.oldKey}\` at ${formatLocation(item.old)}` : formatLocation(item.old);
+      lines.push(`- ${formatItem(item)} moved from ${from} to ${formatLocation(item.new)}`);
+    }
+    lines.push("");
+  }
+
+  if (comparison.identical) {
+    lines.push("All definitions are identical.", "");
+  }
+
+  lines.push("</details>", "");
+  return lines;
+}
+
+function formatExtractionErrors(errors: ExtractionError[]): string[] {
+  if (errors.length === 0) return [];
+  return [
+    "### 🚫 Extraction errors",
+    "",
+    "These files' definitions could not be read, so they were not compared:",
+    "",
+    ...errors.map(error => `- ${describeExtractionError(error)}`),
+    "",
+  ];
+}
+
+function formatIntegrity(issues: IntegrityIssue[]): string[] {
+  if (issues.length === 0) return [];
+  return [
+    "### 🔗 Import integrity",
+    "",
+    ...issues.map(issue => `- \`${issue.file}:${issue.lineno}\` **${issue.kind}**: ${issue.message}`),
+    "",
+  ];
+}
+
+function formatApiSurface(diffs: ApiSurfaceDiff[]): string[] {
+  const changed = diffs.filter(hasApiDifferences);
+  if (diffs.length === 0) return [];
+  if (changed.length === 0) return ["### 📦 Public API", "", `Exports of ${diffs.length} entry points are unchanged.`, ""];
+  const lines = ["### 📦 Public API", ""];
+  for (const diff of changed) {
+    lines.push(`#### \`${diff.entryPoint}\``, "", "```diff");
+    for (const item of diff.removed) lines.push(`- ${item.name}: ${item.signature}`);
+    for (const item of diff.added) lines.push(`+ ${item.name}: ${item.signature}`);
+    for (const item of diff.changed) lines.push(`- ${item.name}: ${item.old}`, `+ ${item.name}: ${item.new}`);
+    lines.push("```", "");
+  }
+  return lines;
+}
+
+function formatCoverage(coverage: FileCoverage[]): string[] {
+  if (coverage.length === 0) return [];
+  const lines = [
+    "### 🧩 Old file coverage",
+    "",
+    "| File | Accounted | Lines |",
+    "|---|---:|---:|",
+    ...coverage.map(file => `| \`${file.file}\` | ${file.percent}% | ${file.accountedLines}/${file.codeLines} |`),
+    "",
+  ];
+  for (const file of coverage.filter(file => file.snippets.length > 0)) {
+    lines.push("<details>", `<summary><code>${file.file}</code>: ${file.snippets.length} unaccounted snippets</summary>`, "");
+    for (const snippet of file.snippets) {
+      lines.push(`- ${describeLineRange(snippet)} **${snippet.status}**: ${snippet.reason}`, "", "```", snippet.text, "```", "");
+    }
+    lines.push("</details>", "");
+  }
+  return lines;
+}
+
+function formatBisect(bisect: BisectResult | undefined): string[] {
+  if (!bisect) return [];
+  const lines = ["### 🔎 Commit by commit", ""];
+  if (bisect.commits.length === 0) lines.push("No commits between the base and head.", "");
+  for (const commit of bisect.commits) {
+    const counts = [
+      commit.python ? `Python: ${describeCounts(commit.python)}` : undefined,
+      commit.typescript ? `TypeScript: ${describeCounts(commit.typescript)}` : undefined,
+    ].filter(part => part !== undefined);
+    lines.push(`- \`${commit.sha.substring(0, 7)}\` ${commit.subject} (${commit.author}): ${counts.join("; ")}`);
+  }
+  if (bisect.attributions.length > 0) {
+    lines.push("", "| Definition | Change | First diverged in | Changed again in |", "|---|---|---|---|");
+    for (const attribution of bisect.attributions) {
+      const introducedBy = attribution.introducedBy ? describeCommit(attribution.introducedBy) : "uncommitted changes";
+      const later = attribution.changedAgainIn.map(commit => `\`${commit.sha.substring(0, 7)}\``).join(", ");
+      lines.push(`| ${formatItem(attribution)} | ${attribution.change} | ${introducedBy} | ${later} |`);
+    }
+  }
+  lines.push("");
+  return lines;
+}
+
+export function formatMarkdownReport(report: VerificationReport): string {
+  const lines: string[] = [];
+
+  lines.push(
+    !report.passed
+      ? "## ❌ Refactor verification failed"
+      : report.warnings.length > 0
+        ? "## ⚠️ Refactor verification passed with warnings"
+        : "## ✅ Refactor verification passed",
+    "",
+    `Comparing \`${report.range.base}\` → \`${describeHead(report.range)}\`. Mode: ${describeChangeMode(report.range.mode)}.`,
+    ""
+  );
+
+  if (report.warnings.length > 0) {
+    lines.push(...report.warnings.map(warning => `> ⚠️ ${warning}`), "");
+  }
+
+  const languages: Array<[string, ComparisonResult | null]> = [
+    ["Python", report.python],
+    ["TypeScript", report.typescript],
+  ];
+  const compared = languages.filter((entry): entry is [string, ComparisonResult] => entry[1] !== null);
+
+  if (compared.length === 0) {
+    lines.push("No Python or TypeScript files changed.");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `| Language | ${COUNT_COLUMNS.map(([title]) => title).join(" | ")} |`,
+    `|---|${COUNT_COLUMNS.map(() => "---:").join("|")}|`
+  );
+  for (const [label, comparison] of compared) {
+    lines.push(`| ${label} | ${COUNT_COLUMNS.map(([, count]) => count(comparison)).join(" | ")} |`);
+  }
+  lines.push("");
+
+  for (const [label, comparison] of compared) {
+    lines.push(...formatLanguage(label, comparison, report.policy));
+  }
+  lines.push(...formatExtractionErrors(report.extractionErrors));
+  lines.push(...formatIntegrity(report.integrity));
+  lines.push(...formatApiSurface(report.api));
+  lines.push(...formatCoverage(report.coverage));
+  lines.push(...formatBisect(report.bisect));
+
+  return lines.join("\n").trimEnd();
+}
@@ -0,0 +1,333 @@
+/**
+ * SARIF 2.1.0 reporter
+ *
+ * Turns removed/added/modified definitions into code-scanning results so
+ * they show up as annotations at the definition's line. Removed definitions
+ * point at their old location since they no longer exist in the new tree.
+ */
+
+import plugin from "../../.claude-plugin/plugin.json";
+import type { ApiSurfaceDiff } from "./api-surface";
+import {
+  describeClassification,
+  describeItem,
+  formatLocation,
+  isAllowedDifference,
+  isBenignModification,
+  type ComparisonItem,
+  type ComparisonResult,
+  type DefinitionLocation,
+  type VerificationReport,
+} from "./comparison";
+import { findAttribution, type BisectLanguage, type BisectResult } from "./bisect";
+import type { VerificationPolicy } from "./config";
+import { describeLineRange, type FileCoverage } from "./coverage";
+import type { ExtractionError } from "./extraction";
+import type { IntegrityIssue } from "./integrity";
+import { describeStatementItem, isBenignStatementChange, type StatementItem } from "./module-statements";
+import { describeWaiver } from "./waivers";
+
+type SarifLevel = "error" | "warning" | "note";
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number; endLine?: number };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+  properties: Record<string, string>;
+  suppressions?: Array<{ kind: "external"; status: "accepted"; justification: string }>;
+}
+
+const RULES: SarifRule[] = [
+  {
+    id: "removed-definition",
+    name: "RemovedDefinition",
+    shortDescription: { text: "Definition exists in the old code but is missing in the new code" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "modified-definition",
+    name: "ModifiedDefinition",
+    shortDescription: { text: "Definition body changed during the refactor" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "ambiguous-definition",
+    name: "AmbiguousDefinition",
+    shortDescription: { text: "Several same-named definitions could not be paired between old and new code" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "module-statement",
+    name: "ModuleStatement",
+    shortDescription: { text: "Top-level import or side effect lost, duplicated, added or reordered" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "extraction-error",
+    name: "ExtractionError",
+    shortDescription: { text: "A changed file's definitions could not be extracted, so it was not compared" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "import-integrity",
+    name: "ImportIntegrity",
+    shortDescription: { text: "An import, re-export or import cycle broke while moving definitions" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "api-surface",
+    name: "ApiSurface",
+    shortDescription: { text: "An entry point's exported declarations changed" },
+    defaultConfiguration: { level: "error" },
+  },
+  {
+    id: "added-definition",
+    name: "AddedDefinition",
+    shortDescription: { text: "Definition exists in the new code but not in the old code" },
+    defaultConfiguration: { level: "warning" },
+  },
+  {
+    id: "unaccounted-lines",
+    name: "UnaccountedLines",
+    shortDescription: { text: "Old code outside any definition or module statement, not traced into the new code" },
+    defaultConfiguration: { level: "warning" },
+  },
+];
+
+function ruleLevel(ruleId: string): SarifLevel {
+  return RULES.find(rule => rule.id === ruleId)?.defaultConfiguration.level ?? "warning";
+}
+
+function toResult(
+  ruleId: string,
+  language: string,
+  item: Pick<ComparisonItem, "key" | "kind" | "name">,
+  location: DefinitionLocation,
+  message: string
+): SarifResult {
+  return {
+    ruleId,
+    level: ruleLevel(ruleId),
+    message: { text: message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: location.file },
+          region: { startLine: location.lineno },
+        },
+      },
+    ],
+    partialFingerprints: { definitionKey: `${language}:${location.file}:${item.key}` },
+    properties: { language, kind: item.kind, name: item.name, key: item.key },
+  };
+}
+
+function languageResults(
+  language: BisectLanguage,
+  comparison: ComparisonResult | null,
+  policy: VerificationPolicy,
+  bisect?: BisectResult
+): SarifResult[] {
+  if (!comparison) return [];
+  const results: SarifResult[] = [];
+  // With --bisect, the commit that first changed the definition
+  const attribute = (result: SarifResult, item: ComparisonItem) => {
+    const commit = findAttribution(bisect, language, item)?.introducedBy;
+    if (commit) result.properties.introducedBy = commit.sha;
+  };
+
+  for (const item of comparison.removed) {
+    if (!item.old) continue;
+    const result = toResult("removed-definition", language, item, item.old,
+      `${describeItem(item)} was removed (previously at ${formatLocation(item.old)})`);
+    // Differences the verification policy allows don't fail the verdict
+    if (isAllowedDifference("removed", item, policy)) result.level = "warning";
+    attribute(result, item);
+    results.push(result);
+  }
+
+  for (const item of comparison.modified) {
+    const classification = item.classification ? `, ${describeClassification(item)}` : "";
+    const result = toResult("modified-definition", language, item, item.new,
+      `${describeItem(item)} changed (${item.reason}${classification}); old ${formatLocation(item.old)} hash ${item.old.hash.substring(0, 16)}, new hash ${item.new.hash.substring(0, 16)}`);
+    if (item.classification) result.properties.classification = item.classification;
+    if (item.categories) result.properties.categories = item.categories.join(",");
+    // Type-only, annotation-only, local-rename, non-blocking and allowed changes don't fail the verdict
+    if (isBenignModification(item, policy)) result.level = "warning";
+    // Waived changes are suppressed rather than dropped, so the approval stays visible
+    if (item.waiver) {
+      result.suppressions = [{ kind: "external", status: "accepted", justification: describeWaiver(item.waiver) }];
+    }
+    if (item.staleWaiver) result.properties.waiver = "invalidated";
+    attribute(result, item);
+    results.push(result);
+  }
+
+  for (const item of comparison.ambiguous) {
+    const location = item.new[0] ?? item.old[0];
+    const candidates = [...item.old.map(l => `old ${formatLocation(l)}`), ...item.new.map(l => `new ${formatLocation(l)}`)];
+    const result = toResult("ambiguous-definition", language, item, location,
+      `${describeItem(item)} is ambiguous (${item.reason}): ${candidates.join(", ")}`);
+    if (isAllowedDifference("ambiguous", item, policy)) result.level = "warning";
+    results.push(result);
+  }
+
+  for (const item of comparison.added) {
+    if (!item.new) continue;
+    const result = toResult("added-definition", language, item, item.new, `${describeItem(item)} was added`);
+    if (isAllowedDifference("added", item, policy)) result.level = "warning";
+    results.push(result);
+  }
+
+  for (const item of comparison.statements) {
+    results.push(statementResult(language, item));
+  }
+
+  return results;
+}
+
+function statementResult(language: string, item: StatementItem): SarifResult {
+  const location = item.new ?? item.old;
+  return {
+    ruleId: "module-statement",
+    // Dropped binding imports don't fail the verdict
+    level: isBenignStatementChange(item) ? "warning" : ruleLevel("module-statement"),
+    message: { text: describeStatementItem(item) },
+    locations: location
+      ? [{ physicalLocation: { artifactLocation: { uri: location.file }, region: { startLine: location.lineno } } }]
+      : [],
+    partialFingerprints: { moduleStatement: `${language}:${location?.file ?? ""}:${item.change}:${item.text}` },
+    properties: { language, kind: item.kind, change: item.change },
+  };
+}
+
+function extractionErrorResult(error: ExtractionError): SarifResult {
+  return {
+    ruleId: "extraction-error",
+    level: ruleLevel("extraction-error"),
+    message: { text: error.message.trim() },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: error.file },
+          region: { startLine: 1 },
+        },
+      },
+    ],
+    partialFingerprints: { extractionError: `${error.language}:${error.side}:${error.file}` },
+    properties: { language: error.language, side: error.side },
+  };
+}
+
+function integrityResult(issue: IntegrityIssue): SarifResult {
+  return {
+    ruleId: "import-integrity",
+    level: ruleLevel("import-integrity"),
+    message: { text: issue.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: issue.file },
+          region: { startLine: issue.lineno },
+        },
+      },
+    ],
+    partialFingerprints: { integrityIssue: `${issue.language}:${issue.file}:${issue.kind}:${issue.message}` },
+    properties: { language: issue.language, kind: issue.kind },
+  };
+}
+
+function apiResults(diff: ApiSurfaceDiff): SarifResult[] {
+  const messages = [
+    ...diff.removed.map(item => ({ name: item.name, change: "removed", text: `Export ${item.name} was removed: ${item.signature}` })),
+    ...diff.added.map(item => ({ name: item.name, change: "added", text: `Export ${item.name} was added: ${item.signature}` })),
+    ...diff.changed.map(item => ({ name: item.name, change: "changed", text: `Export ${item.name} changed from ${item.old} to ${item.new}` })),
+  ];
+  return messages.map(({ name, change, text }) => ({
+    ruleId: "api-surface",
+    level: ruleLevel("api-surface"),
+    message: { text },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: diff.entryPoint },
+          region: { startLine: 1 },
+        },
+      },
+    ],
+    partialFingerprints: { apiExport: `typescript:${diff.entryPoint}:${name}:${change}` },
+    properties: { language: "typescript", name, change },
+  }));
+}
+
+/** Removed and modified lines are already reported per definition; only untracked code is new here */
+function coverageResults(file: FileCoverage): SarifResult[] {
+  return file.snippets
+    .filter(snippet => snippet.status === "untracked")
+    .map(snippet => ({
+      ruleId: "unaccounted-lines",
+      level: ruleLevel("unaccounted-lines"),
+      message: { text: `Old ${describeLineRange(snippet)} not accounted for: ${snippet.reason}` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: file.file },
+            region: { startLine: snippet.startLine, endLine: snippet.endLine },
+          },
+        },
+      ],
+      partialFingerprints: { unaccountedLines: `${file.language}:${file.file}:${snippet.text}` },
+      properties: { language: file.language, status: snippet.status },
+    }));
+}
+
+export function buildSarifReport(report: VerificationReport) {
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: plugin.name,
+            version: plugin.version,
+            rules: RULES,
+          },
+        },
+        results: [
+          ...languageResults("python", report.python, report.policy, report.bisect),
+          ...languageResults("typescript", report.typescript, report.policy, report.bisect),
+          ...report.extractionErrors.map(extractionErrorResult),
+          ...report.integrity.map(integrityResult),
+          ...report.api.flatMap(apiResults),
+          ...report.coverage.flatMap(coverageResults),
+        ],
+        properties: {
+          base: report.range.base,
+          head: report.range.head ?? null,
+          mode: report.range.mode,
+          passed: report.passed,
+          warnings: report.warnings,
+        },
+      },
+    ],
+  };
+}
+
+export function formatSarifReport(report: VerificationReport): string {
+  return JSON.stringify(buildSarifReport(report), null, 2);
+}
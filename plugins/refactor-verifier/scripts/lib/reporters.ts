@@ -0,0 +1,19 @@
+/**
+ * Reporter registry: maps every non-text --format to the function that
+ * renders a VerificationReport. Text output is streamed by the scripts
+ * themselves while they run.
+ */
+
+import type { OutputFormat } from "./cli";
+import type { VerificationReport } from "./comparison";
+import { formatJsonReport } from "./report-json";
+import { formatMarkdownReport } from "./report-markdown";
+import { formatSarifReport } from "./report-sarif";
+
+export type Reporter = (report: VerificationReport) => string;
+
+export const REPORTERS: Record<Exclude<OutputFormat, "text">, Reporter> = {
+  json: formatJsonReport,
+  sarif: formatSarifReport,
+  markdown: formatMarkdownReport,
+};
@@ -0,0 +1,49 @@
+/**
+ * Per-phase wall-clock timings (`--timings`)
+ *
+ * The verification runs its phases one after the other, so each phase is
+ * timed as a lap: the time since the previous lap ended. Laps with the same
+ * name add up.
+ */
+
+export interface PhaseTiming {
+  phase: string;
+  ms: number;
+}
+
+export interface TimingReport {
+  phases: PhaseTiming[];
+  totalMs: number;
+  /** Files whose extracted definitions were read from the cache, or extracted */
+  cache: { dir: string | null; hits: number; misses: number };
+}
+
+export interface Timings {
+  phases: PhaseTiming[];
+  /** Ends the current phase, naming it */
+  lap(phase: string): void;
+  /** Time since the timings were created */
+  total(): number;
+}
+
+export function startTimings(): Timings {
+  const start = performance.now();
+  let lapStart = start;
+  const phases: PhaseTiming[] = [];
+  return {
+    phases,
+    lap(phase) {
+      const now = performance.now();
+      const existing = phases.find(timing => timing.phase === phase);
+      if (existing) existing.ms += now - lapStart;
+      else phases.push({ phase, ms: now - lapStart });
+      lapStart = now;
+    },
+    total: () => performance.now() - start,
+  };
+}
+
+/** `1.2 s` or `340 ms` */
+export function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+}
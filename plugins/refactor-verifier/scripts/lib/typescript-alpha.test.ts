@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { extractTSDefinitions } from "./typescript-extract";
+
+function alphaHash(code: string, key: string) {
+  return extractTSDefinitions(code, "a.ts", { scope: "nested", alpha: true }).items[key].alpha_hash;
+}
+
+describe("localBindings", () => {
+  test("treats renamed parameters and locals as equivalent", () => {
+    expect(alphaHash("function f(a) { const b = a; return b; }", "fn:f")).toBe(
+      alphaHash("function f(x) { const y = x; return y; }", "fn:f")
+    );
+  });
+
+  test("resolves decorators in the enclosing scope, not among the parameters", () => {
+    const before = alphaHash("class K {\n  @deco(token) m(token) { return token; }\n}", "class:K>method:m");
+    const after = alphaHash("class K {\n  @deco(other) m(other) { return other; }\n}", "class:K>method:m");
+    expect(after).not.toBe(before);
+  });
+
+  test("resolves parameter defaults among the parameters, not the body's locals", () => {
+    const before = alphaHash("function f(a, b = limit) { const limit = 1; return a + b + limit; }", "fn:f");
+    const after = alphaHash("function f(a, b = other) { const other = 1; return a + b + other; }", "fn:f");
+    expect(after).not.toBe(before);
+  });
+});
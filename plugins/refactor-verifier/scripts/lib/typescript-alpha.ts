@@ -0,0 +1,151 @@
+/**
+ * Alpha-equivalence for TypeScript
+ *
+ * Resolves identifiers bound inside functions (parameters, variables, loop
+ * and catch bindings, nested function and class names) to positional
+ * placeholders, scope by scope, so renaming a local leaves the canonical form
+ * unchanged. Free identifiers (imports, globals, the definition's own name),
+ * property names and anything inside type annotations keep their text.
+ */
+
+import ts from "typescript";
+
+export interface LocalBindings {
+  /** Placeholder text for each local identifier token, by token start */
+  replacements: Map<number, string>;
+  /** Original names in placeholder order */
+  names: string[];
+}
+
+type FunctionScope = ts.FunctionLikeDeclaration & { body: ts.ConciseBody };
+
+function isFunctionScope(node: ts.Node): node is FunctionScope {
+  return ts.isFunctionLike(node) && (node as ts.FunctionLikeDeclaration).body !== undefined;
+}
+
+function bindingIdentifiers(name: ts.BindingName): ts.Identifier[] {
+  if (ts.isIdentifier(name)) return [name];
+  return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingIdentifiers(element.name)));
+}
+
+/** Identifiers that name a property or label rather than a binding */
+export function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent)) return parent.name === node;
+  if (ts.isQualifiedName(parent)) return parent.right === node;
+  if (ts.isBindingElement(parent)) return parent.propertyName === node;
+  if (
+    ts.isPropertyAssignment(parent) ||
+    ts.isMethodDeclaration(parent) ||
+    ts.isPropertyDeclaration(parent) ||
+    ts.isGetAccessorDeclaration(parent) ||
+    ts.isSetAccessorDeclaration(parent) ||
+    ts.isEnumMember(parent) ||
+    ts.isJsxAttribute(parent)
+  ) {
+    return parent.name === node;
+  }
+  return ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent) || ts.isExportSpecifier(parent);
+}
+
+/** `{ res }` is both a property name and a binding; renaming it changes the property */
+export function isShorthand(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isShorthandPropertyAssignment(parent)) return true;
+  return ts.isBindingElement(parent) && !parent.propertyName && ts.isObjectBindingPattern(parent.parent);
+}
+
+export function localBindings(root: ts.Node, sourceFile: ts.SourceFile): LocalBindings {
+  const replacements = new Map<number, string>();
+  const names: string[] = [];
+  const scopes: Array<Map<string, string>> = [];
+
+  function declare(scope: Map<string, string>, identifier: ts.Identifier) {
+    if (scope.has(identifier.text)) return;
+    scope.set(identifier.text, `$${names.length}`);
+    names.push(identifier.text);
+  }
+
+  /** Names declared in a function's own scope; nested functions only contribute their name */
+  function collectScope(fn: FunctionScope): Map<string, string> {
+    const scope = new Map<string, string>();
+    for (const parameter of fn.parameters) bindingIdentifiers(parameter.name).forEach(id => declare(scope, id));
+    const visitDeclarations = (node: ts.Node) => {
+      if (ts.isVariableDeclaration(node)) bindingIdentifiers(node.name).forEach(id => declare(scope, id));
+      else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) declare(scope, node.name);
+      if (!isFunctionScope(node)) ts.forEachChild(node, visitDeclarations);
+    };
+    visitDeclarations(fn.body);
+    return scope;
+  }
+
+  function resolve(node: ts.Identifier) {
+    if (isPropertyName(node)) return;
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const placeholder = scopes[i].get(node.text);
+      if (placeholder === undefined) continue;
+      replacements.set(node.getStart(sourceFile), isShorthand(node) ? `${node.text}: ${placeholder}` : placeholder);
+      return;
+    }
+  }
+
+  /**
+   * Decorators and the function's name belong to the enclosing scope, and
+   * parameter defaults see the parameters but not the body's declarations
+   */
+  function walkFunction(fn: FunctionScope) {
+    fn.modifiers?.forEach(walk);
+    fn.parameters.forEach(parameter => parameter.modifiers?.forEach(walk));
+    if (fn.name) walk(fn.name);
+
+    const scope = collectScope(fn);
+    const parameterNames = new Set(fn.parameters.flatMap(parameter => bindingIdentifiers(parameter.name)).map(id => id.text));
+    scopes.push(new Map([...scope].filter(([name]) => parameterNames.has(name))));
+    for (const parameter of fn.parameters) {
+      walk(parameter.name);
+      if (parameter.initializer) walk(parameter.initializer);
+    }
+    scopes.pop();
+
+    scopes.push(scope);
+    walk(fn.body);
+    scopes.pop();
+  }
+
+  function walk(node: ts.Node) {
+    if (ts.isTypeNode(node)) return;
+    if (ts.isIdentifier(node)) {
+      resolve(node);
+    } else if (isFunctionScope(node)) {
+      walkFunction(node);
+    } else {
+      ts.forEachChild(node, walk);
+    }
+  }
+
+  walk(root);
+  return { replacements, names };
+}
+
+/**
+ * Replacement text for every identifier naming a definition itself: its
+ * declared name and the references to that name, but no property names.
+ * Strings and templates are single tokens, so their contents never match.
+ */
+export function selfReferences(
+  root: ts.Node,
+  sourceFile: ts.SourceFile,
+  name: string,
+  declarationName: ts.Node | undefined,
+  replacement: string
+): Map<number, string> {
+  const replacements = new Map<number, string>();
+  const walk = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name && (node === declarationName || !isPropertyName(node))) {
+      replacements.set(node.getStart(sourceFile), isShorthand(node) ? `${node.text}: ${replacement}` : replacement);
+    }
+    ts.forEachChild(node, walk);
+  };
+  walk(root);
+  return replacements;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { categorizeChange } from "./change-categories";
+import { extractTSDefinitions } from "./typescript-extract";
+import { parseTSSyntaxTree } from "./typescript-categories";
+
+function categories(before: string, after: string, key: string) {
+  const body = (code: string) => extractTSDefinitions(code, "a.ts", { scope: "nested" }).items[key].body;
+  return categorizeChange(parseTSSyntaxTree(body(before), "a.ts"), parseTSSyntaxTree(body(after), "a.ts"));
+}
+
+describe("categorizeTSModification", () => {
+  test("a changed string literal is a literal change", () => {
+    expect(categories('function f() { return "a"; }', 'function f() { return "b"; }', "fn:f")).toEqual(["literal"]);
+  });
+
+  test("a member that changes kind is a structure change on its class", () => {
+    const before = "class K {\n  get size() { return 1; }\n}";
+    const after = "class K {\n  size() { return 1; }\n}";
+    expect(categories(before, after, "class:K")).toEqual(["structure"]);
+  });
+
+  test("a renamed nested definition is a structure change on its container", () => {
+    const before = "function f() {\n  const a = load();\n  return 1;\n}";
+    const after = "function f() {\n  const b = load();\n  return 1;\n}";
+    expect(categories(before, after, "fn:f")).toEqual(["structure"]);
+  });
+});
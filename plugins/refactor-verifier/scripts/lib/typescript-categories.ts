@@ -0,0 +1,114 @@
+/**
+ * Change categories for TypeScript
+ *
+ * Parses both versions of a modified definition and converts them into the
+ * language-neutral syntax tree that change-categories.ts diffs.
+ */
+
+import ts from "typescript";
+import { categorizeChange, type SyntaxRole, type SyntaxTree } from "./change-categories";
+import type { ChangeCategory } from "./cli";
+import type { DefinitionEntry } from "./comparison";
+
+const CONTROL_KINDS: ReadonlySet<ts.SyntaxKind> = new Set([
+  ts.SyntaxKind.IfStatement,
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.DoStatement,
+  ts.SyntaxKind.SwitchStatement,
+  ts.SyntaxKind.CaseClause,
+  ts.SyntaxKind.DefaultClause,
+  ts.SyntaxKind.ReturnStatement,
+  ts.SyntaxKind.BreakStatement,
+  ts.SyntaxKind.ContinueStatement,
+  ts.SyntaxKind.ThrowStatement,
+  ts.SyntaxKind.TryStatement,
+  ts.SyntaxKind.ConditionalExpression,
+]);
+
+const LITERAL_KEYWORDS: ReadonlySet<ts.SyntaxKind> = new Set([
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+  ts.SyntaxKind.NullKeyword,
+]);
+
+/** `class A extends B` is runtime code even though B parses as a type node */
+function isClassExtends(node: ts.Node): boolean {
+  return (
+    ts.isExpressionWithTypeArguments(node) &&
+    ts.isHeritageClause(node.parent) &&
+    node.parent.token === ts.SyntaxKind.ExtendsKeyword &&
+    ts.isClassLike(node.parent.parent)
+  );
+}
+
+/**
+ * Key carried by a placeholder typescript-extract left for a nested definition:
+ * `"<fn:helper>";`, `"<method:load>"() {}` or `{} = "<const:a>"`
+ */
+function placeholderKey(node: ts.Node): string | undefined {
+  let literal: ts.Node | undefined;
+  if (ts.isExpressionStatement(node)) literal = node.expression;
+  else if (ts.isMethodDeclaration(node)) literal = node.name;
+  else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.name.elements.length === 0) {
+    literal = node.initializer;
+  }
+  return literal && ts.isStringLiteral(literal) && /^<[^<>]+>$/.test(literal.text) ? literal.text : undefined;
+}
+
+function inKindRange(node: ts.Node, first: ts.SyntaxKind, last: ts.SyntaxKind): boolean {
+  return node.kind >= first && node.kind <= last;
+}
+
+function roleOf(node: ts.Node): SyntaxRole | undefined {
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return "identifier";
+  if (inKindRange(node, ts.SyntaxKind.FirstLiteralToken, ts.SyntaxKind.LastLiteralToken)) return "literal";
+  if (inKindRange(node, ts.SyntaxKind.FirstTemplateToken, ts.SyntaxKind.LastTemplateToken)) return "literal";
+  if (LITERAL_KEYWORDS.has(node.kind)) return "literal";
+  if (inKindRange(node, ts.SyntaxKind.FirstBinaryOperator, ts.SyntaxKind.LastBinaryOperator)) return "operator";
+  if (CONTROL_KINDS.has(node.kind)) return "control";
+  if (ts.isCallExpression(node) || ts.isNewExpression(node)) return "call";
+  if (ts.isDecorator(node)) return "decorator";
+  if ((ts.isTypeNode(node) && !isClassExtends(node)) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+    return "type";
+  }
+  return undefined;
+}
+
+/** `offset` is the length of any wrapper code in front of the definition, so spans point into its own text */
+function syntaxTree(node: ts.Node, sourceFile: ts.SourceFile, offset: number): SyntaxTree {
+  const span: [number, number] = [node.getStart(sourceFile) - offset, node.getEnd() - offset];
+  const key = placeholderKey(node);
+  if (key) return { kind: "Placeholder", role: "placeholder", text: key, span, children: [] };
+  const role = roleOf(node);
+  const tree: SyntaxTree = { kind: ts.SyntaxKind[node.kind], span, children: [] };
+  if (role) tree.role = role;
+  if (role === "identifier" || role === "literal") tree.text = node.getText(sourceFile);
+
+  // Unary operators are not child nodes
+  if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) {
+    tree.children.push({ kind: "UnaryOperator", role: "operator", text: ts.tokenToString(node.operator), span, children: [] });
+  }
+  ts.forEachChild(node, child => {
+    tree.children.push(syntaxTree(child, sourceFile, offset));
+  });
+  return tree;
+}
+
+/** Syntax tree of a definition's source; class members are parsed inside an empty class */
+export function parseTSSyntaxTree(code: string, filename: string, containerKind?: string): SyntaxTree {
+  const prefix = containerKind === "class" ? "class __Container {\n" : "";
+  const suffix = containerKind === "class" ? "\n}" : "";
+  const kind = filename.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(filename, prefix + code + suffix, ts.ScriptTarget.Latest, true, kind);
+  return syntaxTree(sourceFile, sourceFile, prefix.length);
+}
+
+export function categorizeTSModification(oldEntry: DefinitionEntry, newEntry: DefinitionEntry): ChangeCategory[] {
+  return categorizeChange(
+    parseTSSyntaxTree(oldEntry.body, oldEntry.file, oldEntry.containerKind),
+    parseTSSyntaxTree(newEntry.body, newEntry.file, newEntry.containerKind)
+  );
+}
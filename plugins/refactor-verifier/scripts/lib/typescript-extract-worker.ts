@@ -0,0 +1,14 @@
+/**
+ * Worker thread entry point of typescript-workers.ts: extracts the
+ * definitions of each posted batch of sources.
+ */
+
+import type { SourceFile } from "./extraction-cache";
+import { extractTSDefinitions, type ExtractOptions } from "./typescript-extract";
+
+declare var self: Worker;
+
+self.onmessage = (event: MessageEvent<{ sources: SourceFile[]; options: ExtractOptions }>) => {
+  const { sources, options } = event.data;
+  self.postMessage(sources.map(source => extractTSDefinitions(source.content, source.file, options)));
+};
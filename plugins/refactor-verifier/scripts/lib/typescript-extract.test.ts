@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { compareEntries } from "./comparison";
+import { collectTSEntries } from "./extraction";
+import { extractTSDefinitions } from "./typescript-extract";
+
+function items(code: string) {
+  return extractTSDefinitions(code, "a.ts", { scope: "nested" }).items;
+}
+
+describe("extractTSDefinitions", () => {
+  test("qualifies nested definitions by their container", () => {
+    const keys = Object.keys(items("function outer() {\n  function helper() {}\n  const run = () => helper();\n}\n"));
+    expect(keys).toEqual(["fn:outer", "fn:outer>fn:helper", "fn:outer>const:run"]);
+  });
+
+  test("keeps the order of nested definitions in their container's hash", () => {
+    const before = items("function f() {\n  const a = load();\n  const b = save();\n}\n");
+    const after = items("function f() {\n  const b = save();\n  const a = load();\n}\n");
+    expect(after["fn:f>const:a"].body_hash).toBe(before["fn:f>const:a"].body_hash);
+    expect(after["fn:f"].body_hash).not.toBe(before["fn:f"].body_hash);
+  });
+
+  test("keeps the position of a nested definition moved out of a block", () => {
+    const before = items("function f(c) {\n  if (c) {\n    const a = dropDatabase();\n  }\n}\n");
+    const after = items("function f(c) {\n  const a = dropDatabase();\n  if (c) {\n  }\n}\n");
+    expect(after["fn:f>const:a"].body_hash).toBe(before["fn:f>const:a"].body_hash);
+    expect(after["fn:f"].body_hash).not.toBe(before["fn:f"].body_hash);
+    expect(before["fn:f"].body).toBe('function f(c) {\n  if (c) {\n    "<const:a>";\n  }\n}');
+  });
+
+  test("keeps the member order in the class header's hash", () => {
+    const before = items("class K {\n  a = load();\n  b = save();\n}\n");
+    const after = items("class K {\n  b = save();\n  a = load();\n}\n");
+    expect(after["class:K>property:a"].body_hash).toBe(before["class:K>property:a"].body_hash);
+    expect(after["class:K"].body_hash).not.toBe(before["class:K"].body_hash);
+  });
+
+  test("replaces each member with a placeholder in the class header", () => {
+    const header = items("class K {\n  a = 1;\n  m() {}\n}\n")["class:K"];
+    expect(header.normalized).toBe("class K { <property:a> <method:m> }");
+    expect(header.body).toBe('class K {\n  "<property:a>"() {}\n  "<method:m>"() {}\n}');
+  });
+});
+
+describe("callable relocation", () => {
+  function relocation(before: string, after: string) {
+    const extract = (code: string) => collectTSEntries([extractTSDefinitions(code, "a.ts", { scope: "nested" })]);
+    return compareEntries(extract(before), extract(after));
+  }
+
+  test("follows a method turned into a free function", () => {
+    const result = relocation("class K {\n  run(a) { return a; }\n}", "class K {}\nfunction run(a) { return a; }");
+    expect(result.moved.map(item => [item.oldKey, item.key])).toEqual([["class:K>method:run", "fn:run"]]);
+  });
+
+  test("doesn't pair a getter with a method", () => {
+    const result = relocation("class A {\n  get size() { return 1; }\n}", "class B {\n  size() { return 1; }\n}");
+    expect(result.moved).toHaveLength(0);
+  });
+
+  test("doesn't pair a method with an arrow-function property, which binds `this` differently", () => {
+    const result = relocation(
+      "class A {\n  run() { return this.x; }\n}",
+      "class B {\n  run = () => { return this.x; };\n}"
+    );
+    expect(result.moved).toHaveLength(0);
+  });
+
+  test("doesn't pair members whose static modifier or decorators differ", () => {
+    expect(relocation("class A {\n  static run() {}\n}", "class B {\n  run() {}\n}").moved).toHaveLength(0);
+    expect(relocation("class A {\n  @memo run() {}\n}", "class B {\n  run() {}\n}").moved).toHaveLength(0);
+  });
+});
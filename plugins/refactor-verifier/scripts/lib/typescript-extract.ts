@@ -0,0 +1,474 @@
+/**
+ * TypeScript definition extraction
+ *
+ * Records every declaration with a distinct key so that a change in any
+ * top-level value is caught: functions and their overload signatures, classes
+ * and their members, interfaces (each declaration-merged block separately),
+ * type aliases, enums, namespaces and their members, every `const`/`let`/`var`
+ * binding whatever its initializer, and default exports.
+ *
+ * Keys are qualified by their lexical container (`class:Foo>method:bar`,
+ * `fn:outer>fn:helper`). A definition's body excludes the nested definitions
+ * that are reported on their own, so a change is never counted twice, but
+ * keeps a placeholder naming each of them (`<method:bar>`, `<fn:helper>`)
+ * where it was: moving a nested definition, or reordering class members whose
+ * initializers run in source order, still changes the container's hash.
+ * Hashes are taken over the definition's syntax tokens (see typescript-tokens).
+ *
+ * Top-level statements that are not definitions (imports, re-exports, calls
+ * and other side effects) are recorded in order as module statements.
+ */
+
+import ts from "typescript";
+import type { ExtractionScope } from "./cli";
+import type { ModuleStatement, ModuleStatementKind } from "./module-statements";
+import { SELF_PLACEHOLDER } from "./renames";
+import { callableOf, classMemberKind, classMemberName, tsCallableShape, type TSMemberKind } from "./typescript-members";
+import { localBindings, selfReferences } from "./typescript-alpha";
+import { collectTokens, joinTokens, normalizeTSNode } from "./typescript-tokens";
+
+export type TSDefinitionKind =
+  | "function"
+  | "overload"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "namespace"
+  | "const"
+  | "let"
+  | "var"
+  | "export"
+  | TSMemberKind;
+
+export interface TSDefinition {
+  /** Local name; the containment path is in the key and `container` */
+  name: string;
+  body_hash: string;
+  body: string;
+  /** Syntax tokens of the body separated by single spaces, without comments */
+  normalized: string;
+  /** `normalized` with the definition's own name replaced by a placeholder, for rename detection */
+  anonymized: string;
+  file: string;
+  lineno: number;
+  /** First and last line of the definition's source range */
+  lines: [number, number];
+  kind: TSDefinitionKind;
+  /** Key of the enclosing definition (`class:Foo` for `class:Foo>method:bar`) */
+  container?: string;
+  container_kind?: TSContainerKind;
+  /** Hash of the parameters and body alone, used to follow methods across containers */
+  callable_hash?: string;
+  /** Hash with locally bound identifiers replaced by placeholders (alpha mode, callables with locals) */
+  alpha_hash?: string;
+  /** Locally bound names in placeholder order */
+  local_names?: string[];
+}
+
+export type TSContainerKind = "class" | "namespace" | "function";
+
+export interface TSDefinitions {
+  items: Record<string, TSDefinition>;
+  /** Top-level statements that are not definitions, in source order */
+  statements: ModuleStatement[];
+  error?: string;
+}
+
+/** Key prefix: `fn` for functions, the kind itself otherwise */
+function keyPrefix(kind: TSDefinitionKind): string {
+  return kind === "function" ? "fn" : kind;
+}
+
+/** A bodiless declaration whose implementation is a sibling with the same name */
+function isOverloadSignature(node: ts.FunctionLikeDeclaration, siblings: readonly ts.Node[]): boolean {
+  if (node.body) return false;
+  return siblings.some(
+    sibling =>
+      sibling.kind === node.kind &&
+      (sibling as ts.FunctionLikeDeclaration).body !== undefined &&
+      (sibling as ts.FunctionLikeDeclaration).name?.getText() === node.name?.getText()
+  );
+}
+
+function variableKind(list: ts.VariableDeclarationList): "const" | "let" | "var" {
+  if (list.flags & ts.NodeFlags.Let) return "let";
+  if (list.flags & (ts.NodeFlags.Const | ts.NodeFlags.Using)) return "const";
+  return "var";
+}
+
+/** Names bound by a declaration, unpacking object and array destructuring */
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+/** `namespace A.B {}` nests one declaration per segment; returns the full name and innermost body */
+function flattenNamespace(node: ts.ModuleDeclaration): { name: string; body: ts.ModuleBody | undefined } {
+  let name = node.name.getText();
+  let body = node.body;
+  while (body && ts.isModuleDeclaration(body)) {
+    name += `.${body.name.getText()}`;
+    body = body.body;
+  }
+  return { name, body };
+}
+
+/** Module statement kind of a top-level statement; undefined for definitions */
+function moduleStatementKind(statement: ts.Statement): ModuleStatementKind | undefined {
+  if (ts.isImportDeclaration(statement)) return statement.importClause ? "import" : "statement";
+  if (ts.isImportEqualsDeclaration(statement)) return "import";
+  if (ts.isExportDeclaration(statement)) return "reexport";
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isVariableStatement(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isExportAssignment(statement) ||
+    ts.isModuleDeclaration(statement) ||
+    ts.isEmptyStatement(statement)
+  ) {
+    return undefined;
+  }
+  return "statement";
+}
+
+function hashTSCode(normalized: string): string {
+  return Bun.hash(normalized).toString(16);
+}
+
+export interface ExtractOptions {
+  scope: ExtractionScope;
+  /** Also compute the alpha-equivalence hash of every definition */
+  alpha?: boolean;
+}
+
+/** A recorded definition whose body is assembled once all nested definitions are known */
+interface PendingDefinition {
+  key: string;
+  node: ts.Node;
+  definition: Omit<TSDefinition, "body_hash" | "body" | "normalized" | "anonymized" | "file">;
+  /** Name node of the declaration; members' names are otherwise property names */
+  declarationName?: ts.Node;
+  start: number;
+  end: number;
+  /** Statement head (`export const `) and `;` around one declarator of a multi-declarator statement */
+  prefix?: [number, number];
+  suffix: string;
+  /** Ranges of nested definitions reported on their own */
+  cuts: Cut[];
+  callableHash?: string;
+}
+
+/** The range of a nested definition, leading trivia included, in its container's body */
+interface Cut {
+  start: number;
+  /** Start of the definition's first token */
+  tokenStart: number;
+  end: number;
+  /** What stands in for the definition: a token in the normalized body, valid code in the source text */
+  placeholder: { token: string; text: string };
+}
+
+interface Scope {
+  pending: PendingDefinition;
+  kind: TSContainerKind;
+}
+
+function isCut(position: number, cuts: Cut[]): boolean {
+  return cuts.some(cut => position >= cut.start && position < cut.end);
+}
+
+/**
+ * A nested definition's key relative to its container, as a token and as code
+ * that still parses where the definition was: a method in a class body, a
+ * declarator in a variable statement, an expression statement elsewhere
+ */
+function placeholderFor(localKey: string, range: ts.Node, containerKind: TSContainerKind): Cut["placeholder"] {
+  const literal = `"<${localKey}>"`;
+  const text =
+    containerKind === "class" ? `${literal}() {}` : ts.isVariableDeclaration(range) ? `{} = ${literal}` : `${literal};`;
+  return { token: `<${localKey}>`, text };
+}
+
+/** Source text of [start, end) with each cut range replaced by its placeholder */
+function cutText(sourceCode: string, start: number, end: number, cuts: Cut[]): string {
+  let text = "";
+  let position = start;
+  for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+    if (cut.end <= position) continue;
+    text += sourceCode.slice(position, Math.max(position, cut.start));
+    // Leading comments go with the definition; the line break and indentation stay
+    const trivia = sourceCode.slice(cut.start, cut.tokenStart);
+    const lineBreak = trivia.lastIndexOf("\n");
+    text += (lineBreak === -1 ? trivia : `\n${trivia.slice(lineBreak + 1)}`) + cut.placeholder.text;
+    position = cut.end;
+  }
+  return text + sourceCode.slice(position, end);
+}
+
+export function extractTSDefinitions(sourceCode: string, filename: string, options: ExtractOptions): TSDefinitions {
+  const defs: TSDefinitions = { items: {}, statements: [] };
+
+  try {
+    const sourceFile = ts.createSourceFile(
+      filename,
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true,
+      filename.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+    );
+
+    const pending: PendingDefinition[] = [];
+    const keys = new Set<string>();
+    const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+    const linesOf = (node: ts.Node): [number, number] => [
+      lineOf(node),
+      sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    ];
+
+    /**
+     * Registers a definition under its container, suffixing `#2`, `#3`... when
+     * the key is taken (merged declarations, overloads), and cuts its range
+     * out of the container's body, leaving a placeholder.
+     */
+    function record(
+      scope: Scope | undefined,
+      node: ts.Node,
+      name: string,
+      kind: TSDefinitionKind,
+      extra: { callable?: ts.FunctionLikeDeclaration; range?: ts.Node; prefix?: [number, number]; suffix?: string } = {}
+    ): Scope {
+      const localKey = `${keyPrefix(kind)}:${name}`;
+      const baseKey = scope ? `${scope.pending.key}>${localKey}` : localKey;
+      let key = baseKey;
+      for (let n = 2; keys.has(key); n++) key = `${baseKey}#${n}`;
+      keys.add(key);
+
+      const range = extra.range ?? node;
+      const shape = extra.callable && tsCallableShape(extra.callable);
+      const entry: PendingDefinition = {
+        key,
+        node: range,
+        definition: {
+          name,
+          lineno: lineOf(node),
+          lines: linesOf(range),
+          kind,
+          ...(scope ? { container: scope.pending.key, container_kind: scope.kind } : {}),
+        },
+        declarationName: ts.getNameOfDeclaration(node as ts.Declaration),
+        start: range.pos,
+        end: range.end,
+        prefix: extra.prefix,
+        suffix: extra.suffix ?? "",
+        cuts: [],
+        callableHash: shape ? hashTSCode(shape) : undefined,
+      };
+      if (scope) {
+        const cuts = scope.pending.cuts;
+        const placeholder = placeholderFor(key.slice(scope.pending.key.length + 1), range, scope.kind);
+        const previous = cuts[cuts.length - 1];
+        if (previous && previous.start === range.pos && previous.end === range.end) {
+          // A destructuring declaration binds several names in one range
+          const separator = ts.isVariableDeclaration(range) ? ", " : " ";
+          previous.placeholder = {
+            token: `${previous.placeholder.token} ${placeholder.token}`,
+            text: `${previous.placeholder.text}${separator}${placeholder.text}`,
+          };
+        } else {
+          cuts.push({ start: range.pos, tokenStart: range.getStart(sourceFile), end: range.end, placeholder });
+        }
+      }
+      pending.push(entry);
+
+      const containerKind: TSContainerKind =
+        kind === "class" ? "class" : kind === "namespace" ? "namespace" : "function";
+      return { pending: entry, kind: containerKind };
+    }
+
+    /** Looks for nested definitions below `node`; skipped entirely in top-level mode */
+    function descend(node: ts.Node | undefined, scope: Scope | undefined) {
+      if (!node || options.scope === "top-level") return;
+      ts.forEachChild(node, child => visit(child, scope));
+    }
+
+    function siblingsOf(node: ts.Node): readonly ts.Node[] {
+      const parent = node.parent;
+      if (ts.isSourceFile(parent) || ts.isModuleBlock(parent) || ts.isBlock(parent)) return parent.statements;
+      return [node];
+    }
+
+    function visitClass(node: ts.ClassDeclaration, scope: Scope | undefined) {
+      const classScope = record(scope, node, node.name?.text ?? "default", "class");
+      for (const member of node.members) {
+        const memberKind = classMemberKind(member);
+        if (!memberKind) continue;
+        const callable = callableOf(member);
+        const overload = callable !== undefined && isOverloadSignature(callable, node.members);
+        const memberScope = record(classScope, member, classMemberName(member, memberKind), overload ? "overload" : memberKind, {
+          callable,
+        });
+        descend(member, memberScope);
+      }
+    }
+
+    function visitNamespace(node: ts.ModuleDeclaration, scope: Scope | undefined) {
+      const { name, body } = flattenNamespace(node);
+      const namespaceScope = record(scope, node, name, "namespace");
+      if (!body || !ts.isModuleBlock(body)) return;
+      for (const statement of body.statements) {
+        visit(statement, namespaceScope, true);
+      }
+    }
+
+    function visitVariables(node: ts.VariableStatement, scope: Scope | undefined, declarationLevel: boolean) {
+      const kind = variableKind(node.declarationList);
+      const declarations = node.declarationList.declarations;
+      // `export const ` etc., to rebuild one statement per declarator
+      const prefix: [number, number] = [node.getStart(), declarations.pos];
+
+      for (const decl of declarations) {
+        const init = decl.initializer;
+        const callable = init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) ? init : undefined;
+        // Inside function bodies only functions and calls like memo(...) are definitions
+        if (!declarationLevel && !callable && !(init && ts.isCallExpression(init))) {
+          descend(init, scope);
+          continue;
+        }
+
+        const single = declarations.length === 1;
+        let first: Scope | undefined;
+        for (const name of bindingNames(decl.name)) {
+          const recorded = record(scope, node, name, kind, {
+            callable,
+            range: single ? node : decl,
+            prefix: single ? undefined : prefix,
+            suffix: single ? "" : ";",
+          });
+          first ??= recorded;
+        }
+        descend(init, first ?? scope);
+      }
+    }
+
+    /**
+     * @param declarationLevel true for module and namespace statements, where every
+     *   variable is a definition and non-declaration statements are still searched
+     */
+    function visit(node: ts.Node, scope: Scope | undefined, declarationLevel = false) {
+      if (ts.isFunctionDeclaration(node)) {
+        const kind = isOverloadSignature(node, siblingsOf(node)) ? "overload" : "function";
+        const functionScope = record(scope, node, node.name?.text ?? "default", kind, { callable: node });
+        descend(node.body, functionScope);
+      } else if (ts.isVariableStatement(node)) {
+        visitVariables(node, scope, declarationLevel);
+      } else if (ts.isClassDeclaration(node)) {
+        visitClass(node, scope);
+      } else if (ts.isInterfaceDeclaration(node)) {
+        // Merged declarations get distinct keys
+        record(scope, node, node.name.text, "interface");
+      } else if (ts.isTypeAliasDeclaration(node)) {
+        record(scope, node, node.name.text, "type");
+      } else if (ts.isEnumDeclaration(node)) {
+        record(scope, node, node.name.text, "enum");
+      } else if (ts.isExportAssignment(node)) {
+        // `export default <expression>` and `export = <expression>`
+        const exportScope = record(scope, node, node.isExportEquals ? "export=" : "default", "export");
+        descend(node.expression, exportScope);
+      } else if (ts.isModuleDeclaration(node)) {
+        visitNamespace(node, scope);
+      } else {
+        descend(node, scope);
+      }
+    }
+
+    for (const statement of sourceFile.statements) {
+      visit(statement, undefined, true);
+      const kind = moduleStatementKind(statement);
+      if (kind) {
+        defs.statements.push({
+          kind,
+          file: filename,
+          lineno: lineOf(statement),
+          lines: linesOf(statement),
+          hash: hashTSCode(normalizeTSNode(statement, sourceFile)),
+          text: statement.getText(sourceFile).split("\n")[0].trim(),
+        });
+      }
+    }
+
+    const tokens = collectTokens(sourceFile, sourceFile);
+    const starts = tokens.map(token => token.getStart(sourceFile));
+    /**
+     * Tokens starting in [start, end) outside the cuts, plus the first token of
+     * each cut, which its placeholder replaces; `starts` is sorted, so
+     * binary-search the first
+     */
+    const tokensIn = (start: number, end: number, cuts: Cut[] = []) => {
+      let low = 0;
+      let high = starts.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (starts[middle] < start) low = middle + 1;
+        else high = middle;
+      }
+      const found: ts.Node[] = [];
+      for (let i = low; i < starts.length && starts[i] < end; i++) {
+        if (!isCut(starts[i], cuts) || cuts.some(cut => cut.tokenStart === starts[i])) {
+          found.push(tokens[i]);
+        }
+      }
+      return found;
+    };
+
+    for (const entry of pending) {
+      const prefix = entry.prefix ? sourceCode.slice(...entry.prefix) : "";
+      const body = prefix + cutText(sourceCode, entry.start, entry.end, entry.cuts) + entry.suffix;
+      const bodyTokens = [
+        ...(entry.prefix ? tokensIn(...entry.prefix) : []),
+        ...tokensIn(entry.start, entry.end, entry.cuts),
+      ];
+      const placeholders = new Map(entry.cuts.map(cut => [cut.tokenStart, cut.placeholder.token]));
+      const normalized = [joinTokens(bodyTokens, sourceFile, placeholders), entry.suffix].filter(Boolean).join(" ");
+      const selfNames = selfReferences(
+        entry.node,
+        sourceFile,
+        entry.definition.name,
+        entry.declarationName,
+        SELF_PLACEHOLDER
+      );
+      const anonymized = [joinTokens(bodyTokens, sourceFile, new Map([...selfNames, ...placeholders])), entry.suffix]
+        .filter(Boolean)
+        .join(" ");
+      const locals = options.alpha ? localBindings(entry.node, sourceFile) : undefined;
+      const alphaFields =
+        locals && locals.names.length > 0
+          ? {
+              alpha_hash: hashTSCode(
+                [joinTokens(bodyTokens, sourceFile, new Map([...locals.replacements, ...placeholders])), entry.suffix]
+                  .filter(Boolean)
+                  .join(" ")
+              ),
+              local_names: locals.names,
+            }
+          : {};
+      defs.items[entry.key] = {
+        ...entry.definition,
+        body,
+        normalized,
+        anonymized,
+        body_hash: hashTSCode(normalized),
+        file: filename,
+        ...(entry.callableHash ? { callable_hash: entry.callableHash } : {}),
+        ...alphaFields,
+      };
+    }
+  } catch (e) {
+    defs.error = `Parse error in ${filename}: ${e}`;
+  }
+
+  return defs;
+}
@@ -0,0 +1,83 @@
+/**
+ * Class members for TypeScript extraction
+ *
+ * Each class member is extracted as its own `Class.member` entry so reports
+ * pinpoint which member changed. Callable shapes (parameters, return type and
+ * body) let the comparison follow a method into another class or out into a
+ * free function.
+ */
+
+import ts from "typescript";
+import { normalizeTSNode } from "./typescript-tokens";
+
+export type TSMemberKind = "method" | "getter" | "setter" | "property" | "constructor" | "static_block";
+
+export function classMemberKind(member: ts.ClassElement): TSMemberKind | undefined {
+  if (ts.isMethodDeclaration(member)) return "method";
+  if (ts.isGetAccessorDeclaration(member)) return "getter";
+  if (ts.isSetAccessorDeclaration(member)) return "setter";
+  if (ts.isPropertyDeclaration(member)) return "property";
+  if (ts.isConstructorDeclaration(member)) return "constructor";
+  if (ts.isClassStaticBlockDeclaration(member)) return "static_block";
+  return undefined;
+}
+
+export function classMemberName(member: ts.ClassElement, kind: TSMemberKind): string {
+  if (kind === "constructor") return "constructor";
+  if (kind === "static_block" || !member.name) return "static";
+  return member.name.getText();
+}
+
+/** The function a member implements: a method, accessor or constructor, or an arrow/function property */
+export function callableOf(member: ts.ClassElement): ts.FunctionLikeDeclaration | undefined {
+  if (ts.isPropertyDeclaration(member)) {
+    const init = member.initializer;
+    return init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) ? init : undefined;
+  }
+  if (
+    ts.isMethodDeclaration(member) ||
+    ts.isGetAccessorDeclaration(member) ||
+    ts.isSetAccessorDeclaration(member) ||
+    ts.isConstructorDeclaration(member)
+  ) {
+    return member;
+  }
+  return undefined;
+}
+
+/** How a callable is invoked and what `this` it sees: accessors and arrow functions differ from methods */
+function callableForm(node: ts.FunctionLikeDeclaration): string {
+  if (ts.isGetAccessorDeclaration(node)) return "get";
+  if (ts.isSetAccessorDeclaration(node)) return "set";
+  if (ts.isConstructorDeclaration(node)) return "constructor";
+  if (ts.isArrowFunction(node)) return "=>";
+  return "function";
+}
+
+/**
+ * Form, `static`, decorators, parameters, return type and body of a
+ * function-like node, independent of its name and container, so a method
+ * turned into a free function matches but not one turned into a getter or an
+ * arrow-function property.
+ */
+export function tsCallableShape(node: ts.FunctionLikeDeclaration): string | undefined {
+  if (!node.body) return undefined;
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  const isAsync = modifiers?.some(m => m.kind === ts.SyntaxKind.AsyncKeyword) ?? false;
+  // An arrow or function property's modifiers and decorators are on the property
+  const member = ts.isPropertyDeclaration(node.parent) ? node.parent : node;
+  const memberModifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined;
+  const isStatic = memberModifiers?.some(m => m.kind === ts.SyntaxKind.StaticKeyword) ?? false;
+  const decorators = (ts.canHaveDecorators(member) ? ts.getDecorators(member) : undefined) ?? [];
+  const sourceFile = node.getSourceFile();
+  return [
+    callableForm(node),
+    isStatic ? "static" : "",
+    ...decorators.map(decorator => normalizeTSNode(decorator, sourceFile)),
+    isAsync ? "async" : "",
+    node.asteriskToken ? "*" : "",
+    `(${node.parameters.map(p => normalizeTSNode(p, sourceFile)).join(" , ")})`,
+    node.type ? `: ${normalizeTSNode(node.type, sourceFile)}` : "",
+    normalizeTSNode(node.body, sourceFile),
+  ].join(" ");
+}
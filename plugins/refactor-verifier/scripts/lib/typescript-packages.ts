@@ -0,0 +1,53 @@
+/**
+ * TypeScript package layout: which packages the changed files belong to and
+ * which source files their package.json exposes.
+ */
+
+import type { TreeSnapshot } from "./git";
+
+export const TS_EXTENSIONS = [".ts", ".tsx"];
+
+function joinPath(directory: string, path: string): string {
+  return directory ? `${directory}/${path}` : path;
+}
+
+/** Directories holding a package.json that contains one of the changed files, innermost first */
+export function packageDirectories(tree: TreeSnapshot, changedFiles: string[]): string[] {
+  const directories = new Set<string>();
+  for (const file of changedFiles) {
+    const parts = file.split("/").slice(0, -1);
+    for (let depth = parts.length; depth >= 0; depth--) {
+      const directory = parts.slice(0, depth).join("/");
+      if (tree.files.has(joinPath(directory, "package.json"))) directories.add(directory);
+    }
+  }
+  return [...directories];
+}
+
+/** Source files package.json points at, mapping built `.js`/`.d.ts` targets back to `.ts` */
+export function packageEntryPoints(tree: TreeSnapshot, directory = ""): string[] {
+  const manifest = tree.read(joinPath(directory, "package.json"));
+  if (!manifest) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(manifest);
+  } catch {
+    return [];
+  }
+  const targets: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === "string") targets.push(value);
+    else if (value && typeof value === "object") Object.values(value).forEach(collect);
+  };
+  const fields = parsed as Record<string, unknown>;
+  ["main", "module", "types", "typings", "exports"].forEach(field => collect(fields[field]));
+
+  const entryPoints = new Set<string>();
+  for (const target of targets) {
+    const stem = joinPath(directory, target.replace(/^\.\//, "").replace(/\.(d\.ts|[cm]?js|tsx?)$/, ""));
+    const source = [...TS_EXTENSIONS.map(ext => `${stem}${ext}`), ...TS_EXTENSIONS.map(ext => `${stem}/index${ext}`)]
+      .find(path => tree.files.has(path));
+    if (source) entryPoints.add(source);
+  }
+  return [...entryPoints];
+}
@@ -0,0 +1,96 @@
+/**
+ * Runtime-equivalence tier for TypeScript
+ *
+ * Transpiles both versions of a modified definition with the TypeScript
+ * compiler, which erases annotations, interfaces and type aliases, and
+ * compares the emitted JavaScript. When the output matches, the change only
+ * touched types and cannot alter runtime behaviour.
+ *
+ * Emit follows the compiler options of the nearest tsconfig.json, so
+ * `experimentalDecorators`/`emitDecoratorMetadata` projects get the
+ * `design:type`/`design:paramtypes` metadata DI containers read, and a
+ * changed parameter type there is a runtime change. Without a tsconfig the
+ * decorators' settings are unknown, so decorated definitions are never
+ * classified as type-only.
+ */
+
+import { dirname, resolve } from "node:path";
+import ts from "typescript";
+import type { ChangeClassification, DefinitionEntry } from "./comparison";
+import { normalizeTSCode } from "./typescript-tokens";
+
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  jsx: ts.JsxEmit.Preserve,
+  useDefineForClassFields: true,
+};
+
+/** Reading a config for its options alone; `include` globs are never expanded */
+const CONFIG_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  readDirectory: () => [],
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile,
+};
+
+const projectOptionsCache = new Map<string, ts.CompilerOptions | undefined>();
+
+/** Compiler options of the tsconfig.json nearest to a file (relative to the working directory); undefined without one */
+export function projectCompilerOptions(file: string): ts.CompilerOptions | undefined {
+  const configPath = ts.findConfigFile(dirname(resolve(file)), ts.sys.fileExists);
+  if (!configPath) return undefined;
+  if (!projectOptionsCache.has(configPath)) {
+    const config = ts.readConfigFile(configPath, ts.sys.readFile).config ?? {};
+    projectOptionsCache.set(configPath, ts.parseJsonConfigFileContent(config, CONFIG_HOST, dirname(configPath)).options);
+  }
+  return projectOptionsCache.get(configPath);
+}
+
+export function emitRuntimeCode(code: string, filename: string, options: ts.CompilerOptions = DEFAULT_OPTIONS): string {
+  const output = ts.transpileModule(code, {
+    fileName: filename,
+    reportDiagnostics: false,
+    compilerOptions: {
+      ...options,
+      // Only the JavaScript of this one file matters, without comments or maps
+      module: ts.ModuleKind.ESNext,
+      removeComments: true,
+      declaration: false,
+      sourceMap: false,
+      inlineSourceMap: false,
+      noEmit: false,
+    },
+  });
+  return normalizeTSCode(output.outputText, filename);
+}
+
+/** Class members are not valid top-level code; transpile them inside an empty class */
+function wrappedCode(entry: DefinitionEntry): string {
+  return entry.containerKind === "class" ? `class __Container {\n${entry.body}\n}` : entry.body;
+}
+
+function hasDecorators(code: string, filename: string): boolean {
+  const kind = filename.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(filename, code, ts.ScriptTarget.Latest, true, kind);
+  const visit = (node: ts.Node): boolean => ts.isDecorator(node) || ts.forEachChild(node, visit) === true;
+  return visit(sourceFile);
+}
+
+/**
+ * "type-only" when both versions emit the same JavaScript, otherwise "runtime".
+ * With decorator metadata on, a constructor's parameter types are emitted as
+ * soon as its class is decorated, which the member alone doesn't show.
+ */
+export function classifyTSModification(oldEntry: DefinitionEntry, newEntry: DefinitionEntry): ChangeClassification {
+  const options = projectCompilerOptions(newEntry.file);
+  const oldCode = wrappedCode(oldEntry);
+  const newCode = wrappedCode(newEntry);
+  if (options === undefined && (hasDecorators(oldCode, oldEntry.file) || hasDecorators(newCode, newEntry.file))) {
+    return "runtime";
+  }
+  if (options?.emitDecoratorMetadata && newEntry.kind === "constructor") return "runtime";
+  const oldRuntime = emitRuntimeCode(oldCode, oldEntry.file, options);
+  const newRuntime = emitRuntimeCode(newCode, newEntry.file, options);
+  return oldRuntime === newRuntime ? "type-only" : "runtime";
+}
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { jsxRenderedText, normalizeTSCode } from "./typescript-tokens";
+
+describe("jsxRenderedText", () => {
+  test("keeps spaces within a line", () => {
+    expect(jsxRenderedText(" items")).toBe(" items");
+    expect(jsxRenderedText("a  b ")).toBe("a  b ");
+    expect(jsxRenderedText(" ")).toBe(" ");
+  });
+
+  test("drops whitespace runs that contain a line break and joins the lines with one space", () => {
+    expect(jsxRenderedText("\n    Hello\n    world\n  ")).toBe("Hello world");
+    expect(jsxRenderedText("\n   \n")).toBe("");
+    expect(jsxRenderedText("a \n  b")).toBe("a b");
+  });
+});
+
+describe("normalizeTSCode", () => {
+  test("tells apart JSX text whose rendered whitespace differs", () => {
+    const spaced = normalizeTSCode("const a = <b>{x} items</b>;", "a.tsx");
+    const joined = normalizeTSCode("const a = <b>{x}items</b>;", "a.tsx");
+    expect(spaced).not.toBe(joined);
+  });
+
+  test("ignores JSX indentation that isn't rendered", () => {
+    const inline = normalizeTSCode("const a = (<b>Hello world</b>);", "a.tsx");
+    const wrapped = normalizeTSCode("const a = (\n  <b>\n    Hello\n    world\n  </b>\n);", "a.tsx");
+    expect(wrapped).toBe(inline);
+  });
+
+  test("ignores comments and whitespace between tokens but not literal contents", () => {
+    expect(normalizeTSCode("f( a ,b ) // note", "a.ts")).toBe(normalizeTSCode("f(a, b)", "a.ts"));
+    expect(normalizeTSCode('f("a  b")', "a.ts")).not.toBe(normalizeTSCode('f("a b")', "a.ts"));
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Token-based normalisation for TypeScript
+ *
+ * Definitions are compared as the sequence of their syntax tokens, taken from
+ * the parsed tree, so comments and whitespace between tokens are dropped while
+ * string, template and regex literals keep their exact contents. Text that
+ * merely looks like a comment (`"https://x"`, `` `a /* b` ``) is never touched.
+ */
+
+import ts from "typescript";
+
+function isJSDocNode(node: ts.Node): boolean {
+  return node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode;
+}
+
+/** Leaf tokens below `root` in source order, without JSDoc comments or the end-of-file token */
+export function collectTokens(root: ts.Node, sourceFile: ts.SourceFile): ts.Node[] {
+  const tokens: ts.Node[] = [];
+  const walk = (node: ts.Node) => {
+    if (isJSDocNode(node) || node.kind === ts.SyntaxKind.EndOfFileToken) return;
+    const children = node.getChildren(sourceFile);
+    if (children.length === 0) {
+      if (node.end > node.pos) tokens.push(node);
+      return;
+    }
+    children.forEach(walk);
+  };
+  walk(root);
+  return tokens;
+}
+
+/**
+ * The text JSX renders for a text child: whitespace runs that contain a line
+ * break are dropped (the lines are joined by a single space), while spaces
+ * within a line, including those next to an expression, are kept.
+ */
+export function jsxRenderedText(raw: string): string {
+  const lines = raw.split(/\r\n|\n|\r/);
+  let lastNonEmpty = 0;
+  lines.forEach((line, i) => {
+    if (/[^ \t]/.test(line)) lastNonEmpty = i;
+  });
+  let text = "";
+  lines.forEach((line, i) => {
+    let trimmed = line.replace(/\t/g, " ");
+    if (i > 0) trimmed = trimmed.replace(/^ +/, "");
+    if (i < lines.length - 1) trimmed = trimmed.replace(/ +$/, "");
+    if (trimmed) text += i === lastNonEmpty ? trimmed : `${trimmed} `;
+  });
+  return text;
+}
+
+/** Source text of a token; JSX text is reduced to the text it renders */
+export function tokenText(token: ts.Node, sourceFile: ts.SourceFile): string {
+  // getStart() skips the leading whitespace of JSX text, which can be rendered
+  if (ts.isJsxText(token)) return jsxRenderedText(sourceFile.text.slice(token.pos, token.end));
+  return sourceFile.text.slice(token.getStart(sourceFile), token.end);
+}
+
+/** Token texts separated by single spaces; `replacements` substitutes tokens by start position */
+export function joinTokens(
+  tokens: readonly ts.Node[],
+  sourceFile: ts.SourceFile,
+  replacements?: ReadonlyMap<number, string>
+): string {
+  return tokens
+    .map(token => replacements?.get(token.getStart(sourceFile)) ?? tokenText(token, sourceFile))
+    .filter(text => text.length > 0)
+    .join(" ");
+}
+
+/** Normalized form of a node from an already parsed file */
+export function normalizeTSNode(node: ts.Node, sourceFile: ts.SourceFile): string {
+  return joinTokens(collectTokens(node, sourceFile), sourceFile);
+}
+
+/** Normalized form of standalone code, parsed on its own */
+export function normalizeTSCode(code: string, filename: string): string {
+  const sourceFile = ts.createSourceFile(
+    filename,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    filename.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+  return normalizeTSNode(sourceFile, sourceFile);
+}
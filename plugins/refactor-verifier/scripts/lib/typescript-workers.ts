@@ -0,0 +1,55 @@
+/**
+ * TypeScript extraction spread across worker threads
+ *
+ * Parsing dominates the extraction of large changes, and each file is
+ * independent, so the sources are split into one batch per worker. Small
+ * batches, or a single job, are extracted on the main thread: starting a
+ * worker costs a fresh load of the compiler.
+ */
+
+import ts from "typescript";
+import type { SourceFile } from "./extraction-cache";
+import { extractTSDefinitions, type ExtractOptions, type TSDefinitions } from "./typescript-extract";
+
+/** Files below which another worker isn't worth loading the compiler for */
+const FILES_PER_WORKER = 20;
+
+/** Modules whose code shapes the extracted definitions, for the cache version */
+const EXTRACTOR_MODULES = [
+  "typescript-extract.ts",
+  "typescript-alpha.ts",
+  "typescript-members.ts",
+  "typescript-tokens.ts",
+  "renames.ts",
+];
+
+/** Source of the extractor modules and the compiler version, for extractorVersion() */
+export async function typescriptExtractorSource(): Promise<string[]> {
+  const sources = await Promise.all(EXTRACTOR_MODULES.map(name => Bun.file(new URL(name, import.meta.url)).text()));
+  return [ts.version, ...sources];
+}
+
+function extractInWorker(sources: SourceFile[], options: ExtractOptions): Promise<TSDefinitions[]> {
+  const worker = new Worker(new URL("typescript-extract-worker.ts", import.meta.url).href);
+  return new Promise<TSDefinitions[]>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<TSDefinitions[]>) => resolve(event.data);
+    worker.onerror = event => reject(new Error(`TypeScript extraction worker failed: ${event.message}`));
+    worker.postMessage({ sources, options });
+  }).finally(() => worker.terminate());
+}
+
+/** Definitions of each source, in order, extracted by up to `jobs` workers */
+export async function extractTSDefinitionsParallel(
+  sources: SourceFile[],
+  options: ExtractOptions,
+  jobs: number
+): Promise<TSDefinitions[]> {
+  const workers = Math.min(jobs, Math.floor(sources.length / FILES_PER_WORKER));
+  if (workers < 2) return sources.map(source => extractTSDefinitions(source.content, source.file, options));
+
+  // Contiguous batches keep the results in source order when concatenated
+  const size = Math.ceil(sources.length / workers);
+  const batches = Array.from({ length: workers }, (_, i) => sources.slice(i * size, (i + 1) * size));
+  const results = await Promise.all(batches.map(batch => extractInWorker(batch, options)));
+  return results.flat();
+}
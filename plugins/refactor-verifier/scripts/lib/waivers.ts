@@ -0,0 +1,107 @@
+/**
+ * Approved-change waivers
+ *
+ * A reviewer who accepts an intentional modification records it in the
+ * waiver file, `.refactor-verifier-waivers.json` at the repository root
+ * unless the config or `--waivers` names another:
+ *
+ *   {
+ *     "waivers": [
+ *       { "key": "fn:parse", "oldHash": "3f2a…", "newHash": "9c41…",
+ *         "reason": "Fix typo in error message", "approver": "jdoe" }
+ *     ]
+ *   }
+ *
+ * A waiver approves the change of `key` from exactly `oldHash` to exactly
+ * `newHash`, so any further edit to the definition invalidates it.
+ * `--write-waivers` adds entries for the failing modifications with an empty
+ * reason and approver; they approve nothing until both are filled in.
+ */
+
+import { isBenignModification, type ModifiedItem } from "./comparison";
+import type { VerificationPolicy } from "./config";
+
+export interface Waiver {
+  key: string;
+  oldHash: string;
+  newHash: string;
+  reason: string;
+  approver: string;
+}
+
+const WAIVER_FIELDS = ["key", "oldHash", "newHash", "reason", "approver"] as const;
+
+/** Generated entries stay inert until a reviewer fills in the reason and approver */
+export function isComplete(waiver: Waiver): boolean {
+  return waiver.reason.trim().length > 0 && waiver.approver.trim().length > 0;
+}
+
+function waives(waiver: Waiver, item: ModifiedItem): boolean {
+  return waiver.key === item.key && waiver.oldHash === item.old.hash && waiver.newHash === item.new.hash;
+}
+
+function parseWaiver(value: unknown, index: number): Waiver {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`"waivers[${index}]" must be an object`);
+  }
+  const fields = value as Record<string, unknown>;
+  for (const field of WAIVER_FIELDS) {
+    if (typeof fields[field] !== "string") throw new Error(`"waivers[${index}].${field}" must be a string`);
+  }
+  return fields as unknown as Waiver;
+}
+
+/** Waivers recorded in `path`; none when the file doesn't exist */
+export async function readWaivers(path: string): Promise<Waiver[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return [];
+  try {
+    const content: unknown = JSON.parse(await file.text());
+    const waivers = (content as { waivers?: unknown } | null)?.waivers;
+    if (!Array.isArray(waivers)) throw new Error(`expected an object with a "waivers" list`);
+    return waivers.map(parseWaiver);
+  } catch (err) {
+    throw new Error(`Invalid ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Marks each modification a complete waiver approves, and records on the
+ * others the waiver a later edit invalidated.
+ */
+export function applyWaivers(modified: ModifiedItem[], waivers: Waiver[]) {
+  const complete = waivers.filter(isComplete);
+  for (const item of modified) {
+    const waiver = complete.find(candidate => waives(candidate, item));
+    if (waiver) {
+      item.waiver = waiver;
+      continue;
+    }
+    const stale = complete.find(candidate => candidate.key === item.key);
+    if (stale) item.staleWaiver = stale;
+  }
+}
+
+/** `approved by jdoe: Fix typo in error message` */
+export function describeWaiver(waiver: Waiver): string {
+  return `approved by ${waiver.approver}: ${waiver.reason}`;
+}
+
+/**
+ * The waiver file after this run: blank entries are added for the
+ * modifications that fail the policy, and entries invalidated by a later
+ * edit are dropped. Entries for definitions outside this run are kept.
+ */
+export function updateWaivers(existing: Waiver[], modified: ModifiedItem[], policy: VerificationPolicy) {
+  const kept = existing.filter(
+    waiver => !modified.some(item => item.key === waiver.key) || modified.some(item => waives(waiver, item))
+  );
+  const added: Waiver[] = modified
+    .filter(item => !isBenignModification(item, policy) && !kept.some(waiver => waives(waiver, item)))
+    .map(item => ({ key: item.key, oldHash: item.old.hash, newHash: item.new.hash, reason: "", approver: "" }));
+  return { waivers: [...kept, ...added], added: added.length, dropped: existing.length - kept.length };
+}
+
+export async function writeWaivers(path: string, waivers: Waiver[]): Promise<void> {
+  await Bun.write(path, JSON.stringify({ waivers }, null, 2) + "\n");
+}
@@ -5,599 +5,758 @@
  * Deterministically verifies that a code refactor was purely structural
  * (splitting files, reorganizing modules) without changing any functionality.
  *
- * Usage: bun run verify-refactor.ts [--path <path>] [--base <branch>]
+ * Usage: bun run verify-refactor.ts [--base <ref>] [--head <ref>] [--path <path>] [--files <list>]
+ *        bun run verify-refactor.ts <base>..<head>
  *
  * The script:
- * 1. Detects current branch and finds merge base
+ * 1. Resolves the base ref (explicit or auto-detected) and the head ref
  * 2. Identifies changed Python/TypeScript files
- * 3. Extracts function/class definitions using AST
+ * 3. Extracts function/class definitions and module-level assignments using AST
  * 4. Computes SHA256 hashes of normalized code bodies
  * 5. Compares and reports: removed, added, modified, matching
+ * 6. Classifies modifications: type-only vs runtime for TypeScript (by
+ *    transpiling), annotation-only vs signature vs logic for Python
+ * 7. Approves modifications recorded in the waiver file with matching hashes
+ * 8. With --bisect, repeats the comparison at every commit of base..head to
+ *    find the commit that first changed each modified or removed definition
+ *
+ * Extraction results are cached on disk by git blob hash and extractor
+ * version. Python files are extracted in batches, one python3 process per
+ * job, and TypeScript files across worker threads.
  */
 
-import { $ } from "bun";
-import ts from "typescript";
+import { compareApiSurface, hasApiDifferences, type ApiSurfaceDiff } from "./lib/api-surface";
+import {
+  attributeChanges,
+  countChanges,
+  describeCommit,
+  describeCounts,
+  type BisectLanguage,
+  type BisectResult,
+  type LanguageWalk,
+} from "./lib/bisect";
+import { formatUsage, parseCliArgs } from "./lib/cli";
+import { applyProjectConfig, describePolicy, type VerifierOptions } from "./lib/config";
+import {
+  describeChangeMode,
+  describeRefRange,
+  getChangedPythonFiles,
+  getChangedTSFiles,
+  getFileContentsAt,
+  grepTree,
+  listCommits,
+  listFilesChangedBetween,
+  openTreeSnapshot,
+  resolveRefRange,
+  type CommitInfo,
+  type RefRange,
+  type TreeSide,
+} from "./lib/git";
+import {
+  compareEntries,
+  describeCategories,
+  describeClassification,
+  describeItem,
+  describePassWithWarnings,
+  evaluateComparison,
+  formatLocation,
+  type ChangeClassification,
+  type ComparisonResult,
+  type DefinitionEntry,
+} from "./lib/comparison";
+import { computeCoverage, describeLineRange, type CoverageStatus, type FileCoverage } from "./lib/coverage";
+import {
+  collectPythonEntries,
+  collectTSEntries,
+  createExtractionContext,
+  describeExtractionError,
+  extractionErrors,
+  extractPythonFiles,
+  extractTSFiles,
+  readSources,
+  type ExtractionContext,
+  type ExtractionError,
+} from "./lib/extraction";
+import {
+  formatIntegrityIssue,
+  newHashesByLocation,
+  relocatedDefinitions,
+  type IntegrityIssue,
+} from "./lib/integrity";
+import { checkPythonIntegrity } from "./lib/integrity-python";
+import { checkTypeScriptIntegrity } from "./lib/integrity-typescript";
+import { describeStatementItem, describeStatementLocation, type ModuleStatement } from "./lib/module-statements";
+import { categorizePythonModifications } from "./lib/python-categories";
+import { REPORTERS } from "./lib/reporters";
+import { categorizeTSModification } from "./lib/typescript-categories";
+import type { PythonDefinitions } from "./lib/python-extract";
+import type { TSDefinitions } from "./lib/typescript-extract";
+import { classifyTSModification } from "./lib/typescript-runtime";
+import { formatDuration, startTimings, type TimingReport } from "./lib/timings";
+import { applyWaivers, describeWaiver, isComplete, readWaivers, updateWaivers, writeWaivers } from "./lib/waivers";
 
-// TypeScript definition interfaces
-interface TSDefinition {
-  body_hash: string;
-  body: string;
-  lineno: number;
-  kind: "function" | "class" | "interface" | "type" | "const" | "enum";
+/**
+ * Classifies a modified Python definition by comparing the hashes of the
+ * annotation/docstring-stripped body and of the signature shape.
+ */
+function classifyPythonModification(
+  oldEntry: DefinitionEntry,
+  newEntry: DefinitionEntry
+): ChangeClassification | undefined {
+  if (!oldEntry.strippedHash || !newEntry.strippedHash) return undefined;
+  if (oldEntry.strippedHash === newEntry.strippedHash) return "annotation-only";
+  if (oldEntry.signatureHash !== newEntry.signatureHash) return "signature";
+  return "logic";
 }
 
-interface TSDefinitions {
-  items: Record<string, TSDefinition>;
-  error?: string;
+function countByKind(entries: DefinitionEntry[], kind: string): number {
+  return entries.filter(e => e.kind === kind).length;
 }
 
-// Python script to extract definitions from Python source
-const PYTHON_EXTRACTOR = `
-import ast
-import sys
-import json
-import hashlib
-
-def normalize_code(node):
-    """Convert AST node back to normalized source code."""
-    return ast.unparse(node)
-
-def get_function_signature(node):
-    """Extract function signature details."""
-    args = []
-    for arg in node.args.args:
-        arg_str = arg.arg
-        if arg.annotation:
-            arg_str += f": {ast.unparse(arg.annotation)}"
-        args.append(arg_str)
-
-    if node.args.vararg:
-        arg_str = f"*{node.args.vararg.arg}"
-        if node.args.vararg.annotation:
-            arg_str += f": {ast.unparse(node.args.vararg.annotation)}"
-        args.append(arg_str)
-
-    if node.args.kwarg:
-        arg_str = f"**{node.args.kwarg.arg}"
-        if node.args.kwarg.annotation:
-            arg_str += f": {ast.unparse(node.args.kwarg.annotation)}"
-        args.append(arg_str)
-
-    return_type = ast.unparse(node.returns) if node.returns else None
-
-    return {
-        "args": args,
-        "return_type": return_type,
-        "decorators": [ast.unparse(d) for d in node.decorator_list],
-        "is_async": isinstance(node, ast.AsyncFunctionDef)
-    }
+function printComparisonResults(comparison: ComparisonResult, label: string) {
+  console.log("\n" + "=".repeat(70));
+  console.log(`${label} COMPARISON RESULTS`);
+  console.log("=".repeat(70));
 
-def extract_definitions(source_code, filename=""):
-    """Extract all definitions from Python source code."""
-    try:
-        tree = ast.parse(source_code)
-    except SyntaxError as e:
-        return {"error": f"Syntax error in {filename}: {e}"}
-
-    definitions = {
-        "functions": {},
-        "classes": {},
-        "assignments": {},
-        "type_aliases": {}
+  if (comparison.removed.length > 0) {
+    console.log("\n❌ REMOVED (exist in old, missing in new):");
+    for (const item of comparison.removed) {
+      console.log(`   - ${describeItem(item)} (${item.old ? formatLocation(item.old) : "?"})`);
     }
+  }
 
-    for node in tree.body:
-        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
-            body = normalize_code(node)
-            sig = get_function_signature(node)
-            definitions["functions"][node.name] = {
-                "signature": sig,
-                "body_hash": hashlib.sha256(body.encode()).hexdigest(),
-                "body": body,
-                "lineno": node.lineno
-            }
-
-        elif isinstance(node, ast.ClassDef):
-            body = normalize_code(node)
-            bases = [ast.unparse(b) for b in node.bases]
-            definitions["classes"][node.name] = {
-                "bases": bases,
-                "decorators": [ast.unparse(d) for d in node.decorator_list],
-                "body_hash": hashlib.sha256(body.encode()).hexdigest(),
-                "body": body,
-                "lineno": node.lineno
-            }
-
-        elif isinstance(node, ast.Assign):
-            for target in node.targets:
-                if isinstance(target, ast.Name):
-                    value = normalize_code(node.value)
-                    definitions["assignments"][target.id] = {
-                        "value_hash": hashlib.sha256(value.encode()).hexdigest(),
-                        "value": value
-                    }
-        elif isinstance(node, ast.AnnAssign) and node.target:
-            if isinstance(node.target, ast.Name):
-                value = normalize_code(node.value) if node.value else None
-                annotation = ast.unparse(node.annotation)
-                definitions["type_aliases"][node.target.id] = {
-                    "annotation": annotation,
-                    "value": value,
-                    "value_hash": hashlib.sha256(value.encode()).hexdigest() if value else None
-                }
-
-    return definitions
-
-if __name__ == "__main__":
-    source = sys.stdin.read()
-    filename = sys.argv[1] if len(sys.argv) > 1 else ""
-    result = extract_definitions(source, filename)
-    print(json.dumps(result, indent=2))
-`;
-
-interface FunctionDef {
-  signature: {
-    args: string[];
-    return_type: string | null;
-    decorators: string[];
-    is_async: boolean;
-  };
-  body_hash: string;
-  body: string;
-  lineno: number;
-}
+  if (comparison.added.length > 0) {
+    console.log("\n➕ ADDED (exist in new, missing in old):");
+    for (const item of comparison.added) {
+      console.log(`   - ${describeItem(item)} (${item.new ? formatLocation(item.new) : "?"})`);
+    }
+  }
 
-interface ClassDef {
-  bases: string[];
-  decorators: string[];
-  body_hash: string;
-  body: string;
-  lineno: number;
-}
+  if (comparison.modified.length > 0) {
+    console.log("\n⚠️  MODIFIED (body hash differs):");
+    for (const item of comparison.modified) {
+      const classification = item.classification ? ` [${describeClassification(item)}]` : "";
+      console.log(`   - ${describeItem(item)} (${item.reason})${classification}`);
+      console.log(`     Old: ${formatLocation(item.old)} hash ${item.old.hash.substring(0, 16)}...`);
+      console.log(`     New: ${formatLocation(item.new)} hash ${item.new.hash.substring(0, 16)}...`);
+      const categories = describeCategories(item);
+      if (categories) console.log(`     Changes: ${categories}`);
+      if (item.waiver) console.log(`     ✅ ${describeWaiver(item.waiver)}`);
+      if (item.staleWaiver) {
+        console.log(`     ⚠️  Waiver invalidated by a later edit (was ${describeWaiver(item.staleWaiver)})`);
+      }
+    }
+  }
 
-interface Definitions {
-  functions: Record<string, FunctionDef>;
-  classes: Record<string, ClassDef>;
-  assignments: Record<string, { value_hash: string; value: string }>;
-  type_aliases: Record<string, { annotation: string; value: string | null; value_hash: string | null }>;
-  error?: string;
-}
+  if (comparison.ambiguous.length > 0) {
+    console.log("\n❓ AMBIGUOUS (same name in several files, review manually):");
+    for (const item of comparison.ambiguous) {
+      console.log(`   - ${describeItem(item)} (${item.reason})`);
+      console.log(`     Old: ${item.old.map(formatLocation).join(", ")}`);
+      console.log(`     New: ${item.new.map(formatLocation).join(", ")}`);
+    }
+  }
 
-async function extractPythonDefinitions(
-  sourceCode: string,
-  filename: string
-): Promise<Definitions> {
-  const proc = Bun.spawn(["python3", "-c", PYTHON_EXTRACTOR, filename], {
-    stdin: new Response(sourceCode),
-    stdout: "pipe",
-    stderr: "pipe",
-  });
+  if (comparison.statements.length > 0) {
+    console.log("\n📜 MODULE STATEMENTS (imports and top-level side effects):");
+    for (const item of comparison.statements) {
+      console.log(`   - ${describeStatementItem(item)} (${describeStatementLocation(item)})`);
+    }
+  }
 
-  const stdout = await new Response(proc.stdout).text();
-  const stderr = await new Response(proc.stderr).text();
-  await proc.exited;
+  if (comparison.renamed.length > 0) {
+    console.log("\n📝 RENAMED (body identical apart from the name):");
+    for (const item of comparison.renamed) {
+      console.log(`   - ${item.kind}: ${item.oldName} → ${item.name} [${item.confidence} confidence]`);
+      console.log(`     ${formatLocation(item.old)} → ${formatLocation(item.new)}`);
+    }
+  }
 
-  if (proc.exitCode !== 0) {
-    console.error(`Error processing ${filename}:`, stderr);
-    return { functions: {}, classes: {}, assignments: {}, type_aliases: {}, error: stderr };
+  if (comparison.moved.length > 0) {
+    console.log("\n🚚 MOVED (body identical):");
+    for (const item of comparison.moved) {
+      const from = item.oldKey ? `${item.oldKey} (${formatLocation(item.old)})` : formatLocation(item.old);
+      console.log(`   - ${describeItem(item)} moved from ${from} to ${formatLocation(item.new)}`);
+    }
   }
 
-  return JSON.parse(stdout);
+  console.log(`\n✅ MATCHING: ${comparison.matching.length} items`);
 }
 
-async function getBaseBranch(): Promise<string> {
-  // Try staging first, then main
-  const stagingBase = await $`git merge-base origin/staging HEAD 2>/dev/null`.text().catch(() => "");
-  if (stagingBase.trim()) return "origin/staging";
-
-  const mainBase = await $`git merge-base origin/main HEAD 2>/dev/null`.text().catch(() => "");
-  if (mainBase.trim()) return "origin/main";
+/** Runs the import integrity checks of each language that has changed files */
+async function checkIntegrity(
+  range: RefRange,
+  files: { python: string[]; typescript: string[] },
+  pythonComparison: ComparisonResult | null,
+  tsComparison: ComparisonResult | null
+): Promise<IntegrityIssue[]> {
+  const oldTree = await openTreeSnapshot(range, "old");
+  const newTree = await openTreeSnapshot(range, "new");
+  const contextFor = (comparison: ComparisonResult, changedFiles: string[]) => ({
+    oldTree,
+    newTree,
+    changedFiles,
+    relocated: relocatedDefinitions(comparison),
+    newHashes: newHashesByLocation(comparison),
+    findFiles: (side: TreeSide, names: string[], extensions: string[]) => grepTree(range, side, names, extensions),
+  });
 
-  return "HEAD~1";
+  const issues: IntegrityIssue[] = [];
+  if (pythonComparison) issues.push(...(await checkPythonIntegrity(contextFor(pythonComparison, files.python))));
+  if (tsComparison) issues.push(...(await checkTypeScriptIntegrity(contextFor(tsComparison, files.typescript))));
+  return issues;
 }
 
-async function getChangedPythonFiles(baseBranch: string): Promise<string[]> {
-  const diff = await $`git diff ${baseBranch} --name-only -- "*.py"`.text().catch(() => "");
-  return diff.trim().split("\n").filter(f => f.length > 0);
+function printExtractionErrors(errors: ExtractionError[]) {
+  if (errors.length === 0) return;
+  console.log("\n" + "=".repeat(70));
+  console.log("🚫 EXTRACTION ERRORS");
+  console.log("=".repeat(70));
+  console.log("\n   These files' definitions could not be read, so they were not compared:");
+  for (const error of errors) {
+    console.log(`   - ${describeExtractionError(error)}`);
+  }
 }
 
-async function getChangedTSFiles(baseBranch: string): Promise<string[]> {
-  const diff = await $`git diff ${baseBranch} --name-only -- "*.ts" "*.tsx"`.text().catch(() => "");
-  return diff.trim().split("\n").filter(f => f.length > 0 && !f.endsWith(".d.ts"));
-}
+function printIntegrityIssues(issues: IntegrityIssue[]) {
+  console.log("\n" + "=".repeat(70));
+  console.log("🔗 IMPORT INTEGRITY");
+  console.log("=".repeat(70));
 
-function normalizeTSCode(code: string): string {
-  return code
-    .replace(/\/\/.*$/gm, "")           // Remove single-line comments
-    .replace(/\/\*[\s\S]*?\*\//g, "")   // Remove multi-line comments
-    .replace(/\s+/g, " ")               // Normalize whitespace
-    .trim();
+  if (issues.length === 0) {
+    console.log("\n✅ Imports of moved definitions still resolve to the same code");
+    return;
+  }
+  for (const issue of issues) {
+    console.log(`   - ${formatIntegrityIssue(issue)}`);
+  }
 }
 
-function extractTSDefinitions(sourceCode: string, filename: string): TSDefinitions {
-  const defs: TSDefinitions = { items: {} };
-
-  try {
-    const sourceFile = ts.createSourceFile(
-      filename,
-      sourceCode,
-      ts.ScriptTarget.Latest,
-      true,
-      filename.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS
-    );
-
-    function visit(node: ts.Node) {
-      const startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
-
-      // Function declarations: function foo() {}
-      if (ts.isFunctionDeclaration(node) && node.name) {
-        const name = node.name.text;
-        const body = sourceCode.slice(node.pos, node.end);
-        const hash = Bun.hash(normalizeTSCode(body)).toString(16);
-        defs.items[`fn:${name}`] = { body_hash: hash, body, lineno: startLine, kind: "function" };
-      }
-
-      // Variable declarations with arrow/function: const foo = () => {} or const foo = memo(...)
-      if (ts.isVariableStatement(node)) {
-        for (const decl of node.declarationList.declarations) {
-          if (ts.isIdentifier(decl.name) && decl.initializer) {
-            const name = decl.name.text;
-            const init = decl.initializer;
-
-            // Arrow function, function expression, or call expression (like memo())
-            if (ts.isArrowFunction(init) || ts.isFunctionExpression(init) || ts.isCallExpression(init)) {
-              const body = sourceCode.slice(node.pos, node.end);
-              const hash = Bun.hash(normalizeTSCode(body)).toString(16);
-              defs.items[`const:${name}`] = { body_hash: hash, body, lineno: startLine, kind: "const" };
-            }
-          }
-        }
-      }
-
-      // Class declarations
-      if (ts.isClassDeclaration(node) && node.name) {
-        const name = node.name.text;
-        const body = sourceCode.slice(node.pos, node.end);
-        const hash = Bun.hash(normalizeTSCode(body)).toString(16);
-        defs.items[`class:${name}`] = { body_hash: hash, body, lineno: startLine, kind: "class" };
-      }
-
-      // Interface declarations
-      if (ts.isInterfaceDeclaration(node)) {
-        const name = node.name.text;
-        const body = sourceCode.slice(node.pos, node.end);
-        const hash = Bun.hash(normalizeTSCode(body)).toString(16);
-        defs.items[`interface:${name}`] = { body_hash: hash, body, lineno: startLine, kind: "interface" };
-      }
-
-      // Type alias declarations
-      if (ts.isTypeAliasDeclaration(node)) {
-        const name = node.name.text;
-        const body = sourceCode.slice(node.pos, node.end);
-        const hash = Bun.hash(normalizeTSCode(body)).toString(16);
-        defs.items[`type:${name}`] = { body_hash: hash, body, lineno: startLine, kind: "type" };
-      }
-
-      // Enum declarations
-      if (ts.isEnumDeclaration(node)) {
-        const name = node.name.text;
-        const body = sourceCode.slice(node.pos, node.end);
-        const hash = Bun.hash(normalizeTSCode(body)).toString(16);
-        defs.items[`enum:${name}`] = { body_hash: hash, body, lineno: startLine, kind: "enum" };
-      }
+function printApiSurface(diffs: ApiSurfaceDiff[]) {
+  console.log("\n" + "=".repeat(70));
+  console.log("📦 PUBLIC API SURFACE");
+  console.log("=".repeat(70));
 
-      ts.forEachChild(node, visit);
+  if (diffs.length === 0) {
+    console.log("\n   No package entry points found for the changed files");
+    return;
+  }
+  for (const diff of diffs) {
+    if (!hasApiDifferences(diff)) {
+      console.log(`\n✅ ${diff.entryPoint}: exports unchanged`);
+      continue;
+    }
+    console.log(`\n❌ ${diff.entryPoint}:`);
+    for (const item of diff.removed) console.log(`   - removed ${item.name}: ${item.signature}`);
+    for (const item of diff.added) console.log(`   + added ${item.name}: ${item.signature}`);
+    for (const item of diff.changed) {
+      console.log(`   ~ changed ${item.name}`);
+      console.log(`     Old: ${item.old}`);
+      console.log(`     New: ${item.new}`);
     }
-
-    visit(sourceFile);
-  } catch (e) {
-    defs.error = `Parse error in ${filename}: ${e}`;
   }
-
-  return defs;
 }
 
-function mergeTSDefinitions(allDefs: TSDefinitions[]): TSDefinitions {
-  const merged: TSDefinitions = { items: {} };
-  for (const defs of allDefs) {
-    Object.assign(merged.items, defs.items);
-  }
-  return merged;
-}
+const COVERAGE_ICONS: Record<CoverageStatus, string> = { accounted: "✅", modified: "⚠️ ", lost: "❌", untracked: "❔" };
 
-function compareTSDefinitions(oldDefs: TSDefinitions, newDefs: TSDefinitions): ComparisonResult {
-  const result: ComparisonResult = { identical: true, added: [], removed: [], modified: [], matching: [] };
-
-  const oldNames = new Set(Object.keys(oldDefs.items));
-  const newNames = new Set(Object.keys(newDefs.items));
-
-  for (const name of oldNames) {
-    if (!newNames.has(name)) {
-      result.removed.push(name);
-      result.identical = false;
-    } else if (oldDefs.items[name].body_hash !== newDefs.items[name].body_hash) {
-      result.modified.push({
-        name,
-        type: oldDefs.items[name].kind,
-        reason: "body changed",
-        oldHash: oldDefs.items[name].body_hash,
-        newHash: newDefs.items[name].body_hash
-      });
-      result.identical = false;
-    } else {
-      result.matching.push(name);
-    }
-  }
+function printCoverage(coverage: FileCoverage[]) {
+  console.log("\n" + "=".repeat(70));
+  console.log("🧩 OLD FILE COVERAGE");
+  console.log("=".repeat(70));
 
-  for (const name of newNames) {
-    if (!oldNames.has(name)) {
-      result.added.push(name);
-      result.identical = false;
+  for (const file of coverage) {
+    console.log(`\n${file.percent === 100 ? "✅" : "⚠️ "} ${file.file}: ${file.percent}% (${file.accountedLines}/${file.codeLines} lines accounted for)`);
+    for (const snippet of file.snippets) {
+      console.log(`   ${COVERAGE_ICONS[snippet.status]} ${describeLineRange(snippet)} ${snippet.status}: ${snippet.reason}`);
+      const text = snippet.text.split("\n");
+      for (const line of text.slice(0, 5)) console.log(`      | ${line}`);
+      if (text.length > 5) console.log(`      | ... ${text.length - 5} more lines`);
     }
   }
-
-  return result;
 }
 
-async function getOldFileContent(baseBranch: string, filePath: string): Promise<string> {
-  return await $`git show ${baseBranch}:${filePath}`.text().catch(() => "");
+/** Definitions of each changed file at a commit, for the bisect walk */
+async function extractEntriesAt(
+  ref: string,
+  files: string[],
+  language: BisectLanguage,
+  extraction: ExtractionContext
+): Promise<Map<string, DefinitionEntry[]>> {
+  const contents = await getFileContentsAt(ref, files);
+  const sources = files.flatMap(file => {
+    const content = contents.get(file);
+    return content ? [{ file, content }] : [];
+  });
+  const entries = new Map(files.map(file => [file, [] as DefinitionEntry[]]));
+  if (language === "python") {
+    (await extractPythonFiles(sources, extraction)).forEach((defs, i) => {
+      if (!defs.error) entries.set(sources[i].file, collectPythonEntries([defs]));
+    });
+  } else {
+    (await extractTSFiles(sources, extraction)).forEach((defs, i) => {
+      if (!defs.error) entries.set(sources[i].file, collectTSEntries([defs]));
+    });
+  }
+  return entries;
 }
 
-async function getNewFileContent(filePath: string): Promise<string> {
-  try {
-    return await Bun.file(filePath).text();
-  } catch {
-    return "";
+/**
+ * Compares the changed files at each commit with the previous commit and
+ * with the base. Only the files a commit touched are extracted again.
+ */
+async function walkCommits(
+  base: string,
+  commits: Array<{ commit: CommitInfo; touched: Set<string> }>,
+  language: BisectLanguage,
+  files: string[],
+  options: VerifierOptions,
+  extraction: ExtractionContext
+): Promise<LanguageWalk> {
+  const compareOptions = { renames: options.renames, alpha: options.alpha };
+  let snapshot = await extractEntriesAt(base, files, language, extraction);
+  const baseEntries = [...snapshot.values()].flat();
+
+  const walk: LanguageWalk = { language, steps: [], cumulative: [] };
+  for (const { commit, touched } of commits) {
+    const changed = await extractEntriesAt(commit.sha, files.filter(file => touched.has(file)), language, extraction);
+    const next = new Map([...snapshot, ...changed]);
+    const entries = [...next.values()].flat();
+    walk.steps.push(compareEntries([...snapshot.values()].flat(), entries, compareOptions));
+    walk.cumulative.push(compareEntries(baseEntries, entries, compareOptions));
+    snapshot = next;
   }
+  return walk;
 }
 
-function mergeDefinitions(allDefs: Definitions[]): Definitions {
-  const merged: Definitions = { functions: {}, classes: {}, assignments: {}, type_aliases: {} };
-  for (const defs of allDefs) {
-    Object.assign(merged.functions, defs.functions);
-    Object.assign(merged.classes, defs.classes);
-    Object.assign(merged.assignments, defs.assignments);
-    Object.assign(merged.type_aliases, defs.type_aliases);
+/** Walks base..head and attributes the differences of the full comparisons to commits */
+async function bisectCommits(
+  range: RefRange,
+  files: { python: string[]; typescript: string[] },
+  comparisons: { python: ComparisonResult | null; typescript: ComparisonResult | null },
+  options: VerifierOptions,
+  extraction: ExtractionContext
+): Promise<BisectResult> {
+  const commits = [];
+  let parent = range.base;
+  for (const commit of await listCommits(range.base, range.head ?? "HEAD")) {
+    commits.push({ commit, touched: new Set(await listFilesChangedBetween(parent, commit.sha)) });
+    parent = commit.sha;
   }
-  return merged;
-}
 
-interface ComparisonResult {
-  identical: boolean;
-  added: string[];
-  removed: string[];
-  modified: Array<{ name: string; type: string; reason: string; oldHash?: string; newHash?: string }>;
-  matching: string[];
+  const result: BisectResult = {
+    commits: commits.map(({ commit }) => ({ ...commit, python: null, typescript: null })),
+    attributions: [],
+  };
+  for (const language of ["python", "typescript"] as const) {
+    const comparison = comparisons[language];
+    if (!comparison || files[language].length === 0) continue;
+    const walk = await walkCommits(range.base, commits, language, files[language], options, extraction);
+    walk.steps.forEach((step, i) => {
+      result.commits[i][language] = countChanges(step);
+    });
+    result.attributions.push(...attributeChanges(walk, commits.map(({ commit }) => commit), comparison));
+  }
+  return result;
 }
 
-function compareDefinitions(oldDefs: Definitions, newDefs: Definitions): ComparisonResult {
-  const result: ComparisonResult = { identical: true, added: [], removed: [], modified: [], matching: [] };
-
-  // Compare functions
-  const oldFunctions = new Set(Object.keys(oldDefs.functions));
-  const newFunctions = new Set(Object.keys(newDefs.functions));
-
-  for (const name of oldFunctions) {
-    if (!newFunctions.has(name)) {
-      result.removed.push(`function: ${name}`);
-      result.identical = false;
-    } else {
-      const oldFunc = oldDefs.functions[name];
-      const newFunc = newDefs.functions[name];
-      if (oldFunc.body_hash !== newFunc.body_hash) {
-        result.modified.push({ name, type: "function", reason: "body changed", oldHash: oldFunc.body_hash, newHash: newFunc.body_hash });
-        result.identical = false;
-      } else {
-        result.matching.push(`function: ${name}`);
-      }
-    }
-  }
+function printBisect(bisect: BisectResult) {
+  console.log("\n" + "=".repeat(70));
+  console.log("🔎 COMMIT BY COMMIT");
+  console.log("=".repeat(70));
 
-  for (const name of newFunctions) {
-    if (!oldFunctions.has(name)) {
-      result.added.push(`function: ${name}`);
-      result.identical = false;
-    }
+  if (bisect.commits.length === 0) {
+    console.log("\n   No commits between the base and head.");
   }
-
-  // Compare classes
-  const oldClasses = new Set(Object.keys(oldDefs.classes));
-  const newClasses = new Set(Object.keys(newDefs.classes));
-
-  for (const name of oldClasses) {
-    if (!newClasses.has(name)) {
-      result.removed.push(`class: ${name}`);
-      result.identical = false;
-    } else {
-      const oldClass = oldDefs.classes[name];
-      const newClass = newDefs.classes[name];
-      if (oldClass.body_hash !== newClass.body_hash) {
-        result.modified.push({ name, type: "class", reason: "body changed", oldHash: oldClass.body_hash, newHash: newClass.body_hash });
-        result.identical = false;
-      } else {
-        result.matching.push(`class: ${name}`);
-      }
-    }
+  for (const commit of bisect.commits) {
+    const languages = [
+      commit.python ? `Python: ${describeCounts(commit.python)}` : undefined,
+      commit.typescript ? `TypeScript: ${describeCounts(commit.typescript)}` : undefined,
+    ].filter(part => part !== undefined);
+    console.log(`\n   ${describeCommit(commit)}`);
+    console.log(`     ${languages.join("; ")}`);
   }
 
-  for (const name of newClasses) {
-    if (!oldClasses.has(name)) {
-      result.added.push(`class: ${name}`);
-      result.identical = false;
+  if (bisect.attributions.length > 0) {
+    console.log("\n📍 WHERE EACH CHANGE WAS INTRODUCED:");
+    for (const attribution of bisect.attributions) {
+      console.log(`   - ${describeItem(attribution)} (${attribution.change}, ${formatLocation(attribution)})`);
+      console.log(
+        attribution.introducedBy
+          ? `     First diverged in ${describeCommit(attribution.introducedBy)}`
+          : "     Only differs in uncommitted changes"
+      );
+      for (const commit of attribution.changedAgainIn) {
+        console.log(`     Changed again in ${describeCommit(commit)}`);
+      }
     }
   }
-
-  return result;
 }
 
-function printComparisonResults(comparison: ComparisonResult, label: string) {
+function printTimings(report: TimingReport) {
   console.log("\n" + "=".repeat(70));
-  console.log(`${label} COMPARISON RESULTS`);
+  console.log("⏱️  TIMINGS");
   console.log("=".repeat(70));
-
-  if (comparison.removed.length > 0) {
-    console.log("\n❌ REMOVED (exist in old, missing in new):");
-    for (const item of comparison.removed) {
-      console.log(`   - ${item}`);
-    }
+  console.log();
+  const width = Math.max(...report.phases.map(timing => timing.phase.length));
+  for (const timing of report.phases) {
+    console.log(`   ${timing.phase.padEnd(width)}  ${formatDuration(timing.ms).padStart(8)}`);
   }
+  console.log(`   ${"Total".padEnd(width)}  ${formatDuration(report.totalMs).padStart(8)}`);
+  const { dir, hits, misses } = report.cache;
+  console.log(dir ? `\n   Extraction cache: ${hits} hits, ${misses} misses (${dir})` : "\n   Extraction cache: disabled");
+}
 
-  if (comparison.added.length > 0) {
-    console.log("\n➕ ADDED (exist in new, missing in old):");
-    for (const item of comparison.added) {
-      console.log(`   - ${item}`);
-    }
+function printSummaryCounts(comparison: ComparisonResult, label: string, log: (...data: unknown[]) => void) {
+  log(`\n  ${label}:`);
+  log(`    - Removed: ${comparison.removed.length}`);
+  log(`    - Added: ${comparison.added.length}`);
+  const byClass = new Map<string, number>();
+  for (const item of comparison.modified) {
+    if (item.classification) byClass.set(item.classification, (byClass.get(item.classification) ?? 0) + 1);
   }
-
-  if (comparison.modified.length > 0) {
-    console.log("\n⚠️  MODIFIED (body hash differs):");
-    for (const item of comparison.modified) {
-      console.log(`   - ${item.type}: ${item.name}`);
-      console.log(`     Old hash: ${item.oldHash?.substring(0, 16)}...`);
-      console.log(`     New hash: ${item.newHash?.substring(0, 16)}...`);
+  const breakdown = [...byClass].map(([classification, count]) => `${count} ${classification}`).join(", ");
+  log(`    - Modified: ${comparison.modified.length}${breakdown ? ` (${breakdown})` : ""}`);
+  const byCategory = new Map<string, number>();
+  for (const category of comparison.modified.flatMap(item => item.categories ?? [])) {
+    byCategory.set(category, (byCategory.get(category) ?? 0) + 1);
+  }
+  if (byCategory.size > 0) {
+    log(`      Changes: ${[...byCategory].map(([category, count]) => `${count} ${category}`).join(", ")}`);
+  }
+  const approved = comparison.modified.filter(item => item.waiver).length;
+  if (approved > 0) log(`      Approved by waivers: ${approved}`);
+  log(`    - Ambiguous: ${comparison.ambiguous.length}`);
+  log(`    - Renamed: ${comparison.renamed.length}`);
+  log(`    - Moved: ${comparison.moved.length}`);
+  log(`    - Matching: ${comparison.matching.length}`);
+  log(`    - Module statements: ${comparison.statements.length}`);
+
+  const changedByKind = new Map<string, number>();
+  for (const item of [...comparison.removed, ...comparison.added, ...comparison.modified, ...comparison.ambiguous]) {
+    changedByKind.set(item.kind, (changedByKind.get(item.kind) ?? 0) + 1);
+  }
+  if (changedByKind.size > 0) {
+    log("    - Changed by kind:");
+    for (const [kind, count] of changedByKind) {
+      log(`        ${kind}: ${count}`);
     }
   }
-
-  console.log(`\n✅ MATCHING: ${comparison.matching.length} items`);
 }
 
 async function main() {
-  console.log("=".repeat(70));
-  console.log("REFACTOR VERIFICATION SCRIPT");
-  console.log("=".repeat(70));
-  console.log();
-
-  // Step 1: Detect base branch
-  console.log("🔍 Detecting base branch...");
-  const baseBranch = await getBaseBranch();
-  console.log(`   Base branch: ${baseBranch}`);
+  const cli = parseCliArgs(Bun.argv.slice(2));
+  if (cli.help) {
+    console.log(formatUsage("verify-refactor.ts"));
+    process.exit(0);
+  }
+  const options = await applyProjectConfig(cli);
+  const timings = startTimings();
+  const extraction = createExtractionContext(options);
+
+  // Progress output is only written in text mode so stdout stays parseable
+  const log: (...data: unknown[]) => void = options.format === "text" ? console.log : () => {};
+
+  log("=".repeat(70));
+  log("REFACTOR VERIFICATION SCRIPT");
+  log("=".repeat(70));
+  log();
+
+  // Step 1: Resolve base and head refs
+  log("🔍 Resolving refs...");
+  const range = await resolveRefRange(options);
+  log(`   Comparing: ${describeRefRange(range)}`);
+  log(`   Mode: ${describeChangeMode(range.mode)}`);
+  if (options.paths.length > 0) {
+    log(`   Paths: ${options.paths.join(", ")}`);
+  }
+  if (options.configFile) {
+    const policy = describePolicy(options.policy);
+    log(`   Config: ${options.configFile}${policy ? ` (${policy})` : ""}`);
+  }
+  const waivers = await readWaivers(options.waiversFile);
+  if (waivers.length > 0) {
+    const pending = waivers.filter(waiver => !isComplete(waiver)).length;
+    const awaiting = pending > 0 ? `, ${pending} awaiting a reason and approver` : "";
+    log(`   Waivers: ${options.waiversFile} (${waivers.length - pending} approved${awaiting})`);
+  }
+  timings.lap("Resolve refs");
 
   // Step 2: Get changed files
-  const pythonFiles = await getChangedPythonFiles(baseBranch);
-  const tsFiles = await getChangedTSFiles(baseBranch);
+  const pythonFiles = await getChangedPythonFiles(range, options);
+  const tsFiles = await getChangedTSFiles(range, options);
+  timings.lap("List changed files");
+
+  const files = { python: pythonFiles, typescript: tsFiles };
 
   if (pythonFiles.length === 0 && tsFiles.length === 0) {
-    console.log("\n📄 No Python or TypeScript files changed.");
-    console.log("\n✅ Nothing to verify.");
+    if (options.format !== "text") {
+      console.log(REPORTERS[options.format]({ range, files, python: null, typescript: null, extractionErrors: [], integrity: [], api: [], coverage: [], policy: options.policy, configFile: options.configFile, passed: true, warnings: [] }));
+    }
+    log("\n📄 No Python or TypeScript files changed.");
+    log("\n✅ Nothing to verify.");
     process.exit(0);
   }
 
   let pythonComparison: ComparisonResult | null = null;
   let tsComparison: ComparisonResult | null = null;
+  const coverage: FileCoverage[] = [];
+  // Files whose definitions couldn't be read on either side
+  const errors: ExtractionError[] = [];
 
   // === PYTHON FILES ===
   if (pythonFiles.length > 0) {
-    console.log(`\n📄 Found ${pythonFiles.length} Python files:`);
+    log(`\n📄 Found ${pythonFiles.length} Python files:`);
     for (const file of pythonFiles.slice(0, 10)) {
-      console.log(`   - ${file}`);
+      log(`   - ${file}`);
     }
     if (pythonFiles.length > 10) {
-      console.log(`   ... and ${pythonFiles.length - 10} more`);
+      log(`   ... and ${pythonFiles.length - 10} more`);
     }
 
     // Extract definitions from old files
-    console.log("\n🔍 Extracting Python definitions from old code...");
-    const oldDefsArray: Definitions[] = [];
-    for (const file of pythonFiles) {
-      const content = await getOldFileContent(baseBranch, file);
-      if (content) {
-        const defs = await extractPythonDefinitions(content, file);
-        if (!defs.error) oldDefsArray.push(defs);
-      }
-    }
-    const oldDefs = mergeDefinitions(oldDefsArray);
-    console.log(`   Functions: ${Object.keys(oldDefs.functions).length}`);
-    console.log(`   Classes: ${Object.keys(oldDefs.classes).length}`);
+    log("\n🔍 Extracting Python definitions from old code...");
+    const oldDefsArray: PythonDefinitions[] = [];
+    // Old sources and module docstrings, for --coverage
+    const oldSources = new Map<string, string>();
+    const oldDocstrings = new Map<string, Array<[number, number]>>();
+    const oldFiles = await readSources(range, "old", pythonFiles);
+    timings.lap("Read Python sources");
+    const oldResults = await extractPythonFiles(oldFiles, extraction);
+    errors.push(...extractionErrors("python", "old", oldFiles, oldResults));
+    oldResults.forEach((defs, i) => {
+      if (defs.error) return;
+      oldDefsArray.push(defs);
+      oldSources.set(oldFiles[i].file, oldFiles[i].content);
+      if (defs.docstring_lines) oldDocstrings.set(oldFiles[i].file, [defs.docstring_lines]);
+    });
+    timings.lap("Extract Python definitions");
+    const oldEntries = collectPythonEntries(oldDefsArray);
+    log(`   Functions: ${countByKind(oldEntries, "function")}`);
+    log(`   Classes: ${countByKind(oldEntries, "class")}`);
+    log(`   Assignments: ${countByKind(oldEntries, "assignment")}`);
+    log(`   Type aliases: ${countByKind(oldEntries, "type")}`);
 
     // Extract definitions from new files
-    console.log("\n🔍 Extracting Python definitions from new code...");
-    const newDefsArray: Definitions[] = [];
-    for (const file of pythonFiles) {
-      const content = await getNewFileContent(file);
-      if (content) {
-        const defs = await extractPythonDefinitions(content, file);
-        if (!defs.error) newDefsArray.push(defs);
-      }
+    log("\n🔍 Extracting Python definitions from new code...");
+    const newFiles = await readSources(range, "new", pythonFiles);
+    timings.lap("Read Python sources");
+    const newResults = await extractPythonFiles(newFiles, extraction);
+    errors.push(...extractionErrors("python", "new", newFiles, newResults));
+    const newDefsArray = newResults.filter(defs => !defs.error);
+    timings.lap("Extract Python definitions");
+    const newEntries = collectPythonEntries(newDefsArray);
+    log(`   Functions: ${countByKind(newEntries, "function")}`);
+    log(`   Classes: ${countByKind(newEntries, "class")}`);
+    log(`   Assignments: ${countByKind(newEntries, "assignment")}`);
+    log(`   Type aliases: ${countByKind(newEntries, "type")}`);
+
+    pythonComparison = compareEntries(oldEntries, newEntries, {
+      renames: options.renames,
+      classify: classifyPythonModification,
+      alpha: options.alpha,
+      statements: { old: oldDefsArray.flatMap(d => d.statements), new: newDefsArray.flatMap(d => d.statements) },
+    });
+    await categorizePythonModifications(pythonComparison.modified);
+    applyWaivers(pythonComparison.modified, waivers);
+    if (options.format === "text") printComparisonResults(pythonComparison, "PYTHON");
+    timings.lap("Compare Python definitions");
+    if (options.coverage) {
+      coverage.push(
+        ...computeCoverage({
+          language: "python",
+          comparison: pythonComparison,
+          entries: oldEntries,
+          statements: oldDefsArray.flatMap(d => d.statements),
+          sources: oldSources,
+          ignored: oldDocstrings,
+        })
+      );
+      timings.lap("Coverage");
     }
-    const newDefs = mergeDefinitions(newDefsArray);
-    console.log(`   Functions: ${Object.keys(newDefs.functions).length}`);
-    console.log(`   Classes: ${Object.keys(newDefs.classes).length}`);
-
-    pythonComparison = compareDefinitions(oldDefs, newDefs);
-    printComparisonResults(pythonComparison, "PYTHON");
   }
 
   // === TYPESCRIPT FILES ===
   if (tsFiles.length > 0) {
-    console.log(`\n📄 Found ${tsFiles.length} TypeScript files:`);
+    log(`\n📄 Found ${tsFiles.length} TypeScript files:`);
     for (const file of tsFiles.slice(0, 10)) {
-      console.log(`   - ${file}`);
+      log(`   - ${file}`);
     }
     if (tsFiles.length > 10) {
-      console.log(`   ... and ${tsFiles.length - 10} more`);
+      log(`   ... and ${tsFiles.length - 10} more`);
     }
 
     // Extract definitions from old files
-    console.log("\n🔍 Extracting TypeScript definitions from old code...");
+    log("\n🔍 Extracting TypeScript definitions from old code...");
     const oldTSDefs: TSDefinitions[] = [];
-    for (const file of tsFiles) {
-      const content = await getOldFileContent(baseBranch, file);
-      if (content) {
-        const defs = extractTSDefinitions(content, file);
-        if (!defs.error) oldTSDefs.push(defs);
-      }
-    }
-    const mergedOldTS = mergeTSDefinitions(oldTSDefs);
-    console.log(`   Definitions: ${Object.keys(mergedOldTS.items).length}`);
+    const oldSources = new Map<string, string>();
+    const oldFiles = await readSources(range, "old", tsFiles);
+    timings.lap("Read TypeScript sources");
+    const oldResults = await extractTSFiles(oldFiles, extraction);
+    errors.push(...extractionErrors("typescript", "old", oldFiles, oldResults));
+    oldResults.forEach((defs, i) => {
+      if (defs.error) return;
+      oldTSDefs.push(defs);
+      oldSources.set(oldFiles[i].file, oldFiles[i].content);
+    });
+    timings.lap("Extract TypeScript definitions");
+    const oldEntries = collectTSEntries(oldTSDefs);
+    log(`   Definitions: ${oldEntries.length}`);
 
     // Extract definitions from new files
-    console.log("\n🔍 Extracting TypeScript definitions from new code...");
-    const newTSDefs: TSDefinitions[] = [];
-    for (const file of tsFiles) {
-      const content = await getNewFileContent(file);
-      if (content) {
-        const defs = extractTSDefinitions(content, file);
-        if (!defs.error) newTSDefs.push(defs);
-      }
+    log("\n🔍 Extracting TypeScript definitions from new code...");
+    const newFiles = await readSources(range, "new", tsFiles);
+    timings.lap("Read TypeScript sources");
+    const newResults = await extractTSFiles(newFiles, extraction);
+    errors.push(...extractionErrors("typescript", "new", newFiles, newResults));
+    const newTSDefs = newResults.filter(defs => !defs.error);
+    timings.lap("Extract TypeScript definitions");
+    const newEntries = collectTSEntries(newTSDefs);
+    log(`   Definitions: ${newEntries.length}`);
+
+    tsComparison = compareEntries(oldEntries, newEntries, {
+      renames: options.renames,
+      classify: classifyTSModification,
+      categorize: categorizeTSModification,
+      alpha: options.alpha,
+      statements: { old: oldTSDefs.flatMap(d => d.statements), new: newTSDefs.flatMap(d => d.statements) },
+    });
+    applyWaivers(tsComparison.modified, waivers);
+    if (options.format === "text") printComparisonResults(tsComparison, "TYPESCRIPT");
+    timings.lap("Compare TypeScript definitions");
+    if (options.coverage) {
+      coverage.push(
+        ...computeCoverage({
+          language: "typescript",
+          comparison: tsComparison,
+          entries: oldEntries,
+          statements: oldTSDefs.flatMap(d => d.statements),
+          sources: oldSources,
+        })
+      );
+      timings.lap("Coverage");
     }
-    const mergedNewTS = mergeTSDefinitions(newTSDefs);
-    console.log(`   Definitions: ${Object.keys(mergedNewTS.items).length}`);
+  }
+
+  if (options.format === "text") printExtractionErrors(errors);
+
+  let integrity: IntegrityIssue[] = [];
+  if (options.checkImports) {
+    log("\n🔗 Checking import integrity...");
+    integrity = await checkIntegrity(range, files, pythonComparison, tsComparison);
+    if (options.format === "text") printIntegrityIssues(integrity);
+    timings.lap("Import integrity");
+  }
+
+  if (options.coverage && options.format === "text") printCoverage(coverage);
 
-    tsComparison = compareTSDefinitions(mergedOldTS, mergedNewTS);
-    printComparisonResults(tsComparison, "TYPESCRIPT");
+  let api: ApiSurfaceDiff[] = [];
+  if (options.apiSurface && tsFiles.length > 0) {
+    log("\n📦 Emitting declarations for the public API surface...");
+    api = await compareApiSurface(range, tsFiles);
+    if (options.format === "text") printApiSurface(api);
+    timings.lap("API surface");
+  }
+
+  let bisect: BisectResult | undefined;
+  if (options.bisect) {
+    log("\n🔎 Walking the commits of the range...");
+    bisect = await bisectCommits(range, files, { python: pythonComparison, typescript: tsComparison }, options, extraction);
+    if (options.format === "text") printBisect(bisect);
+    timings.lap("Bisect");
+  }
+
+  if (options.writeWaivers) {
+    const modified = [...(pythonComparison?.modified ?? []), ...(tsComparison?.modified ?? [])];
+    const update = updateWaivers(waivers, modified, options.policy);
+    await writeWaivers(options.waiversFile, update.waivers);
+    log(`\n📝 Wrote ${options.waiversFile}: ${update.added} new, ${update.dropped} invalidated entries dropped`);
+    if (update.added > 0) log("   Fill in each new entry's reason and approver, then commit the file.");
   }
 
   // Final verdict
-  const pythonIdentical = pythonComparison?.identical ?? true;
-  const tsIdentical = tsComparison?.identical ?? true;
-  const allIdentical = pythonIdentical && tsIdentical;
+  const verdicts = [
+    evaluateComparison(pythonComparison, "Python", options.policy),
+    evaluateComparison(tsComparison, "TypeScript", options.policy),
+  ];
+  const passed =
+    verdicts.every(v => v.passed) && errors.length === 0 && integrity.length === 0 && !api.some(hasApiDifferences);
+  const warnings = passed ? verdicts.flatMap(v => v.warnings) : [];
+  const reasons = passed ? verdicts.flatMap(v => v.reasons) : [];
+  const timingReport: TimingReport | undefined = options.timings
+    ? { phases: timings.phases, totalMs: timings.total(), cache: { ...extraction.cache } }
+    : undefined;
+
+  if (options.format !== "text") {
+    console.log(REPORTERS[options.format]({
+      range,
+      files,
+      python: pythonComparison,
+      typescript: tsComparison,
+      extractionErrors: errors,
+      integrity,
+      api,
+      coverage,
+      bisect,
+      timings: timingReport,
+      policy: options.policy,
+      configFile: options.configFile,
+      passed,
+      warnings,
+    }));
+    process.exit(passed ? 0 : 1);
+  }
 
-  console.log("\n" + "=".repeat(70));
-  console.log("FINAL VERDICT");
-  console.log("=".repeat(70));
+  if (timingReport) printTimings(timingReport);
+
+  log("\n" + "=".repeat(70));
+  log("FINAL VERDICT");
+  log("=".repeat(70));
 
-  if (allIdentical) {
-    console.log("\n✅ VERIFICATION PASSED: Refactor is 100% structural");
-    console.log("   All function, class, and type bodies are identical.");
+  if (passed && warnings.length > 0) {
+    log(`\n⚠️  VERIFICATION PASSED WITH WARNINGS: ${describePassWithWarnings(reasons)}`);
+    for (const warning of warnings) {
+      log(`   ${warning}`);
+    }
+    log("   Review the listed modifications, then accept them as part of the refactor.");
+    process.exit(0);
+  } else if (passed) {
+    log("\n✅ VERIFICATION PASSED: Refactor is 100% structural");
+    log("   All function, class, and type bodies are identical.");
+    const moved = (pythonComparison?.moved.length ?? 0) + (tsComparison?.moved.length ?? 0);
+    if (moved > 0) {
+      log(`   ${moved} definitions moved between files with identical bodies.`);
+    }
+    const renamed = (pythonComparison?.renamed.length ?? 0) + (tsComparison?.renamed.length ?? 0);
+    if (renamed > 0) {
+      log(`   ${renamed} definitions renamed with identical bodies.`);
+    }
     process.exit(0);
   } else {
-    console.log("\n❌ VERIFICATION FAILED: Changes detected beyond refactoring");
-    console.log("\nSummary:");
+    log("\n❌ VERIFICATION FAILED: Changes detected beyond refactoring");
+    log("\nSummary:");
 
     if (pythonComparison && !pythonComparison.identical) {
-      console.log("\n  Python:");
-      console.log(`    - Removed: ${pythonComparison.removed.length}`);
-      console.log(`    - Added: ${pythonComparison.added.length}`);
-      console.log(`    - Modified: ${pythonComparison.modified.length}`);
-      console.log(`    - Matching: ${pythonComparison.matching.length}`);
+      printSummaryCounts(pythonComparison, "Python", log);
     }
 
     if (tsComparison && !tsComparison.identical) {
-      console.log("\n  TypeScript:");
-      console.log(`    - Removed: ${tsComparison.removed.length}`);
-      console.log(`    - Added: ${tsComparison.added.length}`);
-      console.log(`    - Modified: ${tsComparison.modified.length}`);
-      console.log(`    - Matching: ${tsComparison.matching.length}`);
+      printSummaryCounts(tsComparison, "TypeScript", log);
+    }
+
+    if (errors.length > 0) {
+      log(`\n  Extraction errors: ${errors.length} files could not be compared`);
+    }
+
+    if (integrity.length > 0) {
+      log(`\n  Import integrity: ${integrity.length} issues`);
+    }
+
+    const changedEntryPoints = api.filter(hasApiDifferences);
+    if (changedEntryPoints.length > 0) {
+      log(`\n  Public API: ${changedEntryPoints.length} entry points changed`);
+      for (const diff of changedEntryPoints) {
+        log(`    - ${diff.entryPoint}: ${diff.removed.length} removed, ${diff.added.length} added, ${diff.changed.length} changed`);
+      }
     }
 
     process.exit(1);